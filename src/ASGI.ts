@@ -1 +1,524 @@
-export const ASGI = "tmp";
+import http from "http";
+
+import {
+  DEFAULT_ENVELOPE_TIMEOUT_SECONDS,
+  DEFAULT_SHUTDOWN_TIMEOUT_SECONDS,
+  MAX_ENVELOPE_SIZE_BYTES,
+} from "./Config";
+import { encloseResponseEnvelope } from "./Communication";
+import { ErrorMessage } from "./Context";
+import { Signer, isUserAddress } from "./crypto";
+import { dispatcher } from "./Dispatch";
+import {
+  EnvelopeTooLargeError,
+  WireFormat,
+  decodeEnvelope,
+  encodeEnvelope,
+  parseWireFormat,
+} from "./Encoding";
+import { Envelope, EnvelopeHistory, ReplayError } from "./Envelope";
+import { Model } from "./model";
+import { Protocol } from "./Protocol";
+import { AgentInfo, AgentMetadata, RestHandlerDetails, RestMethod } from "./types";
+import { Future, getLogger, Logger, LogLevel, log } from "./utils";
+
+const ERROR_MESSAGE_DIGEST = Model.buildSchemaDigest(ErrorMessage);
+const INSPECTOR_PATHS = ["/agent_info", "/messages", "/protocols"];
+const RESERVED_PATHS = ["/submit", ...INSPECTOR_PATHS];
+const DEFAULT_MESSAGES_LIMIT = 100;
+
+/**
+ * The agent details exposed by the inspector endpoints.
+ */
+export interface AgentInspector {
+  info: AgentInfo;
+  metadata: AgentMetadata;
+  protocols: Record<string, Protocol>;
+  messageHistory: EnvelopeHistory | null;
+}
+
+/**
+ * An error raised while handling a request, carrying the HTTP status to respond with.
+ */
+class HttpError extends Error {
+  status: number;
+  details?: string;
+
+  constructor(status: number, message: string, details?: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Read the full body of a request.
+ *
+ * @param req - The incoming request.
+ * @param maxBytes - The maximum size of the body. Defaults to 10 MiB.
+ * @returns The request body.
+ * @throws HttpError with status 413 if the body is larger than `maxBytes`.
+ */
+function readRawBody(req: http.IncomingMessage, maxBytes: number = MAX_ENVELOPE_SIZE_BYTES): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, "Request body too large", `The limit is ${maxBytes} bytes`);
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // keep draining the request without buffering it, so the response can be sent
+        chunks.length = 0;
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  return (await readRawBody(req)).toString("utf-8");
+}
+
+/**
+ * Write a JSON response.
+ *
+ * @param res - The response to write to.
+ * @param status - The HTTP status code.
+ * @param body - The JSON-encoded body.
+ */
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: string,
+  headers: http.OutgoingHttpHeaders = {}
+): void {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(body);
+}
+
+/**
+ * Parse a non-negative integer query parameter.
+ *
+ * @param params - The query parameters.
+ * @param name - The parameter name.
+ * @param defaultValue - The value used when the parameter is absent.
+ * @throws HttpError if the parameter is not a non-negative integer.
+ */
+function parseCount(params: URLSearchParams, name: string, defaultValue: number): number {
+  const raw = params.get(name);
+  if (raw === null) {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new HttpError(400, `Invalid ${name}`, raw);
+  }
+  return value;
+}
+
+/**
+ * HTTP server receiving envelopes for the agents registered with the dispatcher.
+ *
+ * Envelopes are posted to `/submit`, as JSON or CBOR and optionally compressed,
+ * see `WireFormat`. Requests with the `x-uagents-connection: sync`
+ * header are held open until the receiving agent replies, and answered with the
+ * enclosed response envelope in the wire format of the request, signed by the
+ * agent if it registered a signer. REST endpoints registered by agents are served on
+ * their own paths; when several agents share a path, the `x-uagents-address`
+ * header selects the agent. Agents added as inspectors are described on
+ * `/agent_info`, `/messages` and `/protocols`.
+ */
+export class ASGIServer {
+  private _port: number;
+  private _queries: Map<string, Future<[string, string]>>;
+  private _logger: Logger;
+  private _server: http.Server | null = null;
+  private _restHandlers: Map<string, Map<string, RestHandlerDetails>> = new Map();
+  private _inspectors: Map<string, AgentInspector> = new Map();
+  private _signers: Map<string, Signer> = new Map();
+
+  /**
+   * Initialize the server.
+   *
+   * @param port - The port to listen on. Use 0 to pick a free port.
+   * @param queries - The pending sync queries, keyed by sender address.
+   * @param logger - The logger to use.
+   */
+  constructor(
+    port: number,
+    queries: Map<string, Future<[string, string]>>,
+    logger?: Logger
+  ) {
+    this._port = port;
+    this._queries = queries;
+    this._logger = logger || getLogger(LogLevel.INFO, "server");
+  }
+
+  /**
+   * The port the server listens on.
+   */
+  get port(): number {
+    const address = this._server?.address();
+    if (address && typeof address === "object") {
+      return address.port;
+    }
+    return this._port;
+  }
+
+  get queries(): Map<string, Future<[string, string]>> {
+    return this._queries;
+  }
+
+  /**
+   * Check whether a REST endpoint is registered for the given agent.
+   *
+   * @param address - The agent address.
+   * @param method - The HTTP method.
+   * @param endpoint - The endpoint path.
+   */
+  hasRestEndpoint(address: string, method: RestMethod, endpoint: string): boolean {
+    return this._restHandlers.get(`${method} ${endpoint}`)?.has(address) ?? false;
+  }
+
+  /**
+   * Register a REST endpoint served on behalf of an agent.
+   *
+   * @param address - The agent address.
+   * @param details - The REST handler details.
+   * @throws Error if the path is reserved or already registered for the agent.
+   */
+  addRestEndpoint(address: string, details: RestHandlerDetails): void {
+    if (RESERVED_PATHS.includes(details.endpoint)) {
+      throw new Error(`Endpoint ${details.endpoint} is reserved`);
+    }
+    if (this.hasRestEndpoint(address, details.method, details.endpoint)) {
+      throw new Error(`Handler for ${details.method} ${details.endpoint} already exists`);
+    }
+    const key = `${details.method} ${details.endpoint}`;
+    const handlers = this._restHandlers.get(key) ?? new Map();
+    handlers.set(address, details);
+    this._restHandlers.set(key, handlers);
+  }
+
+  /**
+   * Register the signer of the sync responses sent on behalf of an agent.
+   *
+   * @param address - The agent address.
+   * @param signer - The signer of the agent address.
+   */
+  addSigner(address: string, signer: Signer): void {
+    this._signers.set(address, signer);
+  }
+
+  /**
+   * Expose an agent on the inspector endpoints.
+   *
+   * @param address - The agent address.
+   * @param inspector - The agent details to expose.
+   */
+  addInspector(address: string, inspector: AgentInspector): void {
+    this._inspectors.set(address, inspector);
+  }
+
+  /**
+   * Start listening for requests.
+   */
+  async serve(): Promise<void> {
+    if (this._server) {
+      return;
+    }
+    const server = http.createServer((req, res) => {
+      void this._handle(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this._port, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this._server = server;
+    log(`Starting server on http://0.0.0.0:${this.port} (Press CTRL+C to quit)`, this._logger);
+  }
+
+  /**
+   * Stop accepting requests and wait for open requests to complete.
+   *
+   * @param timeoutSeconds - How long to wait before closing open connections.
+   */
+  async stop(timeoutSeconds: number = DEFAULT_SHUTDOWN_TIMEOUT_SECONDS): Promise<void> {
+    const server = this._server;
+    if (!server) {
+      return;
+    }
+    this._server = null;
+
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+    server.closeIdleConnections();
+    const timer = setTimeout(() => server.closeAllConnections(), timeoutSeconds * 1000);
+    await closed;
+    clearTimeout(timer);
+  }
+
+  private async _handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url || "/", "http://localhost");
+      if (url.pathname === "/submit") {
+        if (req.method !== "POST") {
+          throw new HttpError(405, "Method not allowed");
+        }
+        await this._handleSubmit(req, res);
+        return;
+      }
+      if (INSPECTOR_PATHS.includes(url.pathname)) {
+        if (req.method !== "GET") {
+          throw new HttpError(405, "Method not allowed");
+        }
+        this._handleInspector(req, res, url);
+        return;
+      }
+      await this._handleRest(req, res, url.pathname);
+    } catch (error) {
+      if (res.headersSent) {
+        return;
+      }
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, JSON.stringify({ error: error.message, details: error.details }));
+        return;
+      }
+      log(`Error while handling request: ${error}`, this._logger);
+      sendJson(res, 500, JSON.stringify({ error: "Internal server error" }));
+    }
+  }
+
+  private async _handleSubmit(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const contentType = req.headers["content-type"] || "";
+    let format: WireFormat;
+    try {
+      format = parseWireFormat(contentType, req.headers["content-encoding"]);
+    } catch (error) {
+      throw new HttpError(415, "Unsupported media type", `${error}`);
+    }
+
+    const rawBody = await readRawBody(req);
+    let env: Envelope;
+    try {
+      env = decodeEnvelope(rawBody, format);
+    } catch (error) {
+      if (error instanceof EnvelopeTooLargeError) {
+        throw new HttpError(413, "Envelope too large", error.message);
+      }
+      throw new HttpError(400, "Invalid envelope", `${error}`);
+    }
+
+    if (env.expires !== undefined && env.expires < Math.floor(Date.now() / 1000)) {
+      throw new HttpError(400, "Envelope expired");
+    }
+
+    if (!isUserAddress(env.sender) || env.signature) {
+      try {
+        env.verify();
+      } catch (error) {
+        throw new HttpError(400, "Signature verification failed", `${error}`);
+      }
+    }
+
+    if (!dispatcher.contains(env.target)) {
+      throw new HttpError(400, "Unable to locate destination", env.target);
+    }
+
+    const expectsResponse = req.headers["x-uagents-connection"] === "sync";
+    try {
+      dispatcher.checkReplay(env);
+    } catch (error) {
+      if (!(error instanceof ReplayError && error.duplicate)) {
+        throw new HttpError(400, "Envelope rejected as a replay", `${error}`);
+      }
+      // the response to the first delivery was lost: acknowledge the retry without handling it again
+      if (expectsResponse) {
+        throw new HttpError(409, "Envelope already received", `${error}`);
+      }
+      log(`Acknowledged duplicate envelope: ${error}`, this._logger);
+      sendJson(res, 200, "{}");
+      return;
+    }
+
+    let payload: string;
+    try {
+      payload = await dispatcher.decodePayload(env);
+    } catch (error) {
+      throw new HttpError(400, "Unable to decrypt payload", `${error}`);
+    }
+
+    let query: Future<[string, string]> | undefined;
+    if (expectsResponse) {
+      query = new Future<[string, string]>();
+      this._queries.set(env.sender, query);
+    }
+
+    await dispatcher.dispatchMsg(
+      env.sender,
+      env.target,
+      env.schemaDigest,
+      payload,
+      env.session
+    );
+
+    if (!query) {
+      sendJson(res, 200, "{}");
+      return;
+    }
+
+    const [responseMsg, schemaDigest] = await this._awaitQuery(env, query);
+    const response = await encloseResponseEnvelope(
+      responseMsg,
+      schemaDigest,
+      env.target,
+      env.session,
+      env.sender,
+      this._signers.get(env.target),
+      env.encryption !== undefined && !isUserAddress(env.sender)
+    );
+    // answer in the wire format of the request
+    const { body, headers } = encodeEnvelope(response, format);
+    res.writeHead(200, headers);
+    res.end(body);
+  }
+
+  private async _handleRest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    path: string
+  ): Promise<void> {
+    const handlers = this._restHandlers.get(`${req.method} ${path}`);
+    if (!handlers) {
+      const otherMethods = Array.from(this._restHandlers.keys())
+        .filter((key) => key.endsWith(` ${path}`));
+      if (otherMethods.length > 0) {
+        throw new HttpError(405, "Method not allowed");
+      }
+      throw new HttpError(404, "Not found");
+    }
+
+    const [address, details] = this._selectAgent(req, handlers, "No handler found for agent");
+
+    let message: any = null;
+    if (details.request_model) {
+      try {
+        message = details.request_model.validate(JSON.parse(await readBody(req)));
+      } catch (error) {
+        if (error instanceof HttpError) {
+          throw error;
+        }
+        throw new HttpError(400, "Invalid request body", `${error}`);
+      }
+    }
+
+    const response = await dispatcher.dispatchRest(
+      address,
+      details.method,
+      details.endpoint,
+      message
+    );
+
+    let validated: any;
+    try {
+      validated = details.response_model.validate(response);
+    } catch (error) {
+      throw new HttpError(500, "Handler response does not match response schema", `${error}`);
+    }
+    sendJson(res, 200, JSON.stringify(validated));
+  }
+
+  private _handleInspector(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ): void {
+    const [, inspector] = this._selectAgent(req, this._inspectors, "Agent not found");
+
+    let body: any;
+    if (url.pathname === "/agent_info") {
+      body = { ...inspector.info, metadata: inspector.metadata };
+    } else if (url.pathname === "/protocols") {
+      body = { protocols: Object.values(inspector.protocols).map((p) => p.manifest()) };
+    } else {
+      const offset = parseCount(url.searchParams, "offset", 0);
+      const limit = parseCount(url.searchParams, "limit", DEFAULT_MESSAGES_LIMIT);
+      const { entries, total } = inspector.messageHistory?.query(
+        {
+          sender: url.searchParams.get("sender") ?? undefined,
+          session: url.searchParams.get("session") ?? undefined,
+          schemaDigest: url.searchParams.get("schema_digest") ?? undefined,
+        },
+        offset,
+        limit
+      ) ?? { entries: [], total: 0 };
+      body = { envelopes: entries, total, offset, limit };
+    }
+    sendJson(res, 200, JSON.stringify(body), { "access-control-allow-origin": "*" });
+  }
+
+  /**
+   * Select the agent a request is addressed to, using the `x-uagents-address`
+   * header or the only candidate.
+   *
+   * @throws HttpError if no candidate matches.
+   */
+  private _selectAgent<T>(
+    req: http.IncomingMessage,
+    candidates: Map<string, T>,
+    notFound: string
+  ): [string, T] {
+    const destination = req.headers["x-uagents-address"];
+    let address: string | undefined;
+    if (typeof destination === "string") {
+      address = destination;
+    } else if (candidates.size === 1) {
+      address = candidates.keys().next().value;
+    }
+    const candidate = address ? candidates.get(address) : undefined;
+    if (!address || candidate === undefined) {
+      throw new HttpError(404, notFound, address);
+    }
+    return [address, candidate];
+  }
+
+  /**
+   * Wait for the reply to a sync envelope until it expires.
+   */
+  private async _awaitQuery(
+    env: Envelope,
+    query: Future<[string, string]>
+  ): Promise<[string, string]> {
+    let timeout = DEFAULT_ENVELOPE_TIMEOUT_SECONDS;
+    if (env.expires !== undefined) {
+      timeout = Math.min(timeout, env.expires - Math.floor(Date.now() / 1000));
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), Math.max(timeout, 0) * 1000);
+    });
+    const response = await Promise.race([query.promise, expired]);
+    clearTimeout(timer);
+
+    if (this._queries.get(env.sender) === query) {
+      this._queries.delete(env.sender);
+    }
+    if (response === null) {
+      return [JSON.stringify({ error: "Timeout waiting for response" }), ERROR_MESSAGE_DIGEST];
+    }
+    return response;
+  }
+}
@@ -1,2 +1,1343 @@
-export const Agent = "tmp";
+import { SigningCosmWasmClient } from "@cosmjs/cosmwasm-stargate";
 
+import {
+  ALMANAC_API_URL,
+  AVERAGE_BLOCK_INTERVAL,
+  DEFAULT_MAX_ENDPOINTS,
+  DEFAULT_SHUTDOWN_TIMEOUT_SECONDS,
+  KEY_ROTATION_GRACE_PERIOD_SECONDS,
+  MAINNET_CHAIN_ID,
+  MAINNET_PREFIX,
+  REGISTRATION_RETRY_INTERVAL_SECONDS,
+  REGISTRATION_UPDATE_INTERVAL_SECONDS,
+  STORAGE_EXPIRY_INTERVAL_SECONDS,
+  TESTNET_CHAIN_ID,
+  TESTNET_PREFIX,
+  AgentverseConfig,
+  parseAgentverseConfig,
+  parseEndpointConfig,
+} from "./Config";
+import { ASGIServer } from "./ASGI";
+import { DEFAULT_RETRY_POLICY, Dispenser, Outbox, RetryPolicy } from "./Communication";
+import {
+  AgentRepresentation,
+  ErrorMessage,
+  ExternalContext,
+  InternalContext,
+} from "./Context";
+import { Identity, Signer, isUserAddress, registrationDigest } from "./crypto";
+import { dispatcher, Sink } from "./Dispatch";
+import { WireFormat } from "./Encoding";
+import {
+  ENCRYPTION_METADATA_KEY,
+  Envelope,
+  EnvelopeHistory,
+  EnvelopeHistoryEntry,
+  PAYLOAD_ENCRYPTION,
+  ReplayCache,
+} from "./Envelope";
+import { Keystore } from "./Keystore";
+import { Model } from "./model";
+import { MailboxClient } from "./Mailbox";
+import { AlmanacContract, getAlmanacContract, InsufficientFundsError } from "./Network";
+import { Protocol } from "./Protocol";
+import { AgentRegistrationPolicy, DefaultRegistrationPolicy, MovedToRecord } from "./Registration";
+import { GlobalResolver, Resolver } from "./Resolver";
+import {
+  ContextStorage,
+  StorageAPI,
+  StorageConfig,
+  createStorage,
+  getOrCreatePrivateKeys,
+} from "./Storage";
+import {
+  AddressPrefix,
+  AgentEndpoint,
+  AgentInfo,
+  AgentMetadata,
+  EventCallback,
+  IntervalCallback,
+  MessageCallback,
+  RestGetHandler,
+  RestHandler,
+  RestHandlerDetails,
+  RestHandlerMap,
+  RestMethod,
+  RestPostHandler,
+  RestReturnType,
+  WalletMessageCallback,
+} from "./types";
+import { Future, getLogger, Logger, LogLevel, log } from "./utils";
+import {
+  FetchWalletMessagingTransport,
+  LocalWallet,
+  WalletMessage,
+  WalletMessagingClient,
+  WalletMessagingTransport,
+} from "./Wallet";
+
+const ERROR_MESSAGE_DIGEST = Model.buildSchemaDigest(ErrorMessage);
+
+export type AgentEvent = "startup" | "shutdown";
+
+/**
+ * Options used to rotate the keys of an agent.
+ *
+ * @prop {Signer} signer The signer of the new address. Defaults to a random identity.
+ * @prop {AgentRegistrationPolicy} registrationPolicy The policy used to register the new address. Defaults to the default policy for agents using it, and to the current policy otherwise.
+ * @prop {number} gracePeriodSeconds How long the agent keeps receiving envelopes for its previous address and peers follow it to the new one. Defaults to 7 days.
+ */
+export type KeyRotationOptions = {
+  signer?: Signer;
+  registrationPolicy?: AgentRegistrationPolicy;
+  gracePeriodSeconds?: number;
+};
+
+/**
+ * A previous address of an agent, kept until the end of the grace period of
+ * the key rotation that replaced it.
+ */
+type PreviousAddress = {
+  expires: number;
+  record?: MovedToRecord;
+  policy: AgentRegistrationPolicy;
+};
+
+/**
+ * Options used to configure an agent.
+ *
+ * @prop {string} name The name of the agent. Defaults to the first 16 characters of its address.
+ * @prop {number} port The port the agent listens on for incoming envelopes. Defaults to 8000.
+ * @prop {string} seed The seed used to derive the agent identity.
+ * @prop {string} mnemonic The BIP-39 mnemonic used to derive the agent identity and its wallet, instead of a seed.
+ * @prop {Signer} signer An external signer, e.g. backed by an HSM or KMS, used instead of an identity held in memory.
+ * @prop endpoint The endpoint configuration used for registration.
+ * @prop {Resolver} resolver The resolver used for address-to-endpoint resolution.
+ * @prop storage The storage used by the agent, or its configuration. Defaults to a file store named after the agent address.
+ * @prop {string} passphrase The passphrase encrypting the private keys file and file storage. Defaults to the `UAGENTS_PASSPHRASE` environment variable.
+ * @prop {AgentRegistrationPolicy} registrationPolicy The policy used to register the agent.
+ * @prop {number} maxResolverEndpoints The maximum number of endpoints to resolve per destination.
+ * @prop {string} version The version of the agent.
+ * @prop {boolean} test Whether the agent runs against the testnet. Defaults to true.
+ * @prop {LogLevel} logLevel The log level of the agent logger.
+ * @prop {AgentMetadata} metadata Additional metadata published with the agent registration.
+ * @prop {number} shutdownTimeoutSeconds How long to wait for in-flight handlers on shutdown. Defaults to 10.
+ * @prop {boolean} enableAgentInspector Whether to record message history and serve the inspector endpoints. Defaults to true.
+ * @prop {RetryPolicy} retryPolicy Overrides of the policy used to retry failed deliveries.
+ * @prop {WireFormat} wireFormat The wire format of envelopes sent over HTTP. Defaults to uncompressed JSON, which every agent understands.
+ * @prop {boolean} encryptPayloads Whether to encrypt the payloads of envelopes sent to other agents, so only their target can read them. Only agents advertising support in their registration metadata receive encrypted payloads, flagged with envelope version 2; the others, including the Python agents which cannot decrypt them, receive plaintext payloads. Agents whose signer can decrypt advertise support. Defaults to false.
+ * @prop {boolean} persistentOutbox Whether to keep outgoing envelopes in storage until they are delivered. Defaults to false.
+ * @prop walletMessaging Whether to exchange wallet messages through the Fetch.ai wallet messaging service, or the transport to exchange them with, e.g. an `InMemoryWalletMessagingTransport` in tests. Defaults to false.
+ * @prop agentverse The Agentverse configuration, either `mailbox_key@base_url`, a base URL, a mailbox key or an object. An agent with a mailbox key receives its envelopes through its mailbox.
+ */
+export interface AgentOptions {
+  name?: string;
+  port?: number;
+  seed?: string;
+  mnemonic?: string;
+  signer?: Signer;
+  endpoint?: string | string[] | { [key: string]: any } | null;
+  resolver?: Resolver;
+  storage?: StorageAPI | StorageConfig;
+  passphrase?: string;
+  registrationPolicy?: AgentRegistrationPolicy;
+  maxResolverEndpoints?: number;
+  version?: string;
+  test?: boolean;
+  logLevel?: LogLevel;
+  metadata?: AgentMetadata;
+  shutdownTimeoutSeconds?: number;
+  enableAgentInspector?: boolean;
+  retryPolicy?: Partial<RetryPolicy>;
+  persistentOutbox?: boolean;
+  encryptPayloads?: boolean;
+  wireFormat?: WireFormat;
+  agentverse?: string | { [key: string]: any } | null;
+  walletMessaging?: boolean | WalletMessagingTransport;
+}
+
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
+/**
+ * An agent that interacts within a communication environment.
+ *
+ * The agent owns its identity, storage, resolver, registration policy and the
+ * protocols it supports, and is registered with the dispatcher as a sink for
+ * messages addressed to it.
+ */
+export class Agent extends Sink {
+  private _name: string;
+  private _port: number;
+  private _version: string;
+  private _test: boolean;
+  private _signer: Signer;
+  private _wallet: LocalWallet;
+  private _keyName: string | null;
+  private _passphrase?: string;
+  private _endpoints: AgentEndpoint[];
+  private _resolver: Resolver;
+  private _storage: StorageAPI;
+  private _contextStorage: ContextStorage;
+  private _ledger?: SigningCosmWasmClient;
+  private _almanacContract?: AlmanacContract;
+  private _logger: Logger;
+  private _metadata: AgentMetadata;
+  private _registrationPolicy: AgentRegistrationPolicy;
+  private _defaultRegistrationPolicy: boolean;
+  private _dispenser: Dispenser;
+  private _agentverse: AgentverseConfig;
+  private _mailboxClient: MailboxClient | null = null;
+  private _walletMessagingClient: WalletMessagingClient | null = null;
+  private _walletMessageHandlers: WalletMessageCallback[] = [];
+  private _messageCache: EnvelopeHistory | null;
+  private _protocol: Protocol;
+  private _includedProtocols: Protocol[] = [];
+  private _queries: Map<string, Future<[string, string]>> = new Map();
+  private _server: ASGIServer;
+  private _restHandlers: RestHandlerMap = {};
+  private _restEndpoints: RestHandlerDetails[] = [];
+  private _inBureau: boolean = false;
+  private _onStartup: EventCallback[] = [];
+  private _onShutdown: EventCallback[] = [];
+  private _representation: AgentRepresentation;
+  private _encryptPayloads: boolean;
+  private _previousSigners: Map<string, Signer> = new Map();
+  private _previousAddresses: Map<string, PreviousAddress> = new Map();
+  private _replayCache: ReplayCache;
+  private _shutdownTimeout: number;
+  private _running: boolean = false;
+  private _acceptingMessages: boolean = true;
+  private _inFlight: Set<Promise<void>> = new Set();
+  private _messageQueue: Array<[string, string, string, string]> = [];
+  private _processingQueue: boolean = false;
+  private _timers: Set<ReturnType<typeof setTimeout>> = new Set();
+  private _signalHandler?: () => void;
+  private _resolveStopped?: () => void;
+
+  /**
+   * Initialize an Agent instance.
+   *
+   * @param options - The agent configuration.
+   */
+  constructor(options: AgentOptions = {}) {
+    super();
+    [this._signer, this._wallet] = Agent._initializeKeys(
+      options.seed,
+      options.name,
+      options.passphrase,
+      options.mnemonic,
+      options.signer
+    );
+    const fromKeysFile = !options.seed && !options.mnemonic && !options.signer;
+    this._keyName = fromKeysFile && options.name ? options.name : null;
+    this._passphrase = options.passphrase;
+    this._name = options.name || this.address.slice(0, 16);
+    this._port = options.port ?? 8000;
+    this._version = options.version || "0.1.0";
+    this._test = options.test ?? true;
+    this._logger = getLogger(options.logLevel ?? LogLevel.INFO, this._name);
+    this._endpoints = parseEndpointConfig(options.endpoint ?? null);
+    this._resolver = options.resolver
+      || new GlobalResolver(options.maxResolverEndpoints || DEFAULT_MAX_ENDPOINTS);
+    this._storage = createStorage(options.storage, this.address.slice(0, 16), options.passphrase);
+    this._contextStorage = new ContextStorage(this._storage);
+    this._replayCache = new ReplayCache(this._storage);
+    this._metadata = options.metadata || {};
+    this._shutdownTimeout = options.shutdownTimeoutSeconds ?? DEFAULT_SHUTDOWN_TIMEOUT_SECONDS;
+    this._defaultRegistrationPolicy = !options.registrationPolicy;
+    this._registrationPolicy = options.registrationPolicy
+      || this._buildDefaultRegistrationPolicy(this._signer);
+    this._messageCache = (options.enableAgentInspector ?? true) ? new EnvelopeHistory() : null;
+    this._dispenser = new Dispenser(
+      this._messageCache ?? undefined,
+      { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy },
+      options.persistentOutbox ? new Outbox(this._storage) : undefined,
+      options.wireFormat
+    );
+    this._protocol = new Protocol(this._name, this._version);
+
+    this._encryptPayloads = options.encryptPayloads ?? false;
+    this._representation = Agent._represent(this._signer, this._encryptPayloads);
+
+    this._server = new ASGIServer(this._port, this._queries, this._logger);
+    this._addToServer();
+
+    if (options.walletMessaging) {
+      this._walletMessagingClient = new WalletMessagingClient(
+        this._wallet,
+        options.walletMessaging === true
+          ? new FetchWalletMessagingTransport(this._test ? TESTNET_CHAIN_ID : MAINNET_CHAIN_ID, this._logger)
+          : options.walletMessaging,
+        this._logger
+      );
+    }
+
+    this._agentverse = parseAgentverseConfig(options.agentverse ?? null);
+    if (this._agentverse.useMailbox) {
+      this._mailboxClient = new MailboxClient(this._representation, this._agentverse, this._logger);
+      if (this._endpoints.length > 0) {
+        log("Endpoint configuration is replaced by the mailbox endpoint", this._logger);
+      }
+      this._endpoints = [{ url: this._mailboxClient.endpoint, weight: 1 }];
+    }
+
+    dispatcher.register(this.address, this);
+    if (this._keyName) {
+      this._loadPreviousKeys(this._keyName);
+    }
+  }
+
+  /**
+   * Derive the agent signer and its ledger wallet.
+   *
+   * @throws Error if more than one of a seed, a mnemonic and a signer are given.
+   */
+  private static _initializeKeys(
+    seed?: string,
+    name?: string,
+    passphrase?: string,
+    mnemonic?: string,
+    signer?: Signer
+  ): [Signer, LocalWallet] {
+    if (seed && mnemonic) {
+      throw new Error("Provide either a seed or a mnemonic, not both");
+    }
+    if (signer) {
+      if (seed || mnemonic) {
+        throw new Error("Provide either a signer or a seed or mnemonic, not both");
+      }
+      const wallet = name
+        ? new LocalWallet(getOrCreatePrivateKeys(name, passphrase)[1])
+        : LocalWallet.generate();
+      return [signer, wallet];
+    }
+    if (mnemonic) {
+      return [Identity.fromMnemonic(mnemonic, 0), LocalWallet.fromMnemonic(mnemonic)];
+    }
+    if (seed) {
+      return [Identity.fromSeed(seed, 0), LocalWallet.fromSeed(seed)];
+    }
+    if (name) {
+      const [identityKey, walletKey] = getOrCreatePrivateKeys(name, passphrase);
+      return [Identity.fromString(identityKey), new LocalWallet(walletKey)];
+    }
+    return [Identity.generate(), LocalWallet.generate()];
+  }
+
+  /**
+   * Build the agent representation handed out to contexts, which must not
+   * depend on `this`.
+   */
+  private static _represent(signer: Signer, encryptPayloads: boolean): AgentRepresentation {
+    return {
+      address: signer.address,
+      publicKey: signer.publicKey,
+      signDigest: (digest: Buffer) => signer.signDigest(digest),
+      encryptPayloads,
+    };
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get address(): string {
+    return this._signer.address;
+  }
+
+  /**
+   * The signer of the agent address: its identity, or the external signer it was created with.
+   */
+  get signer(): Signer {
+    return this._signer;
+  }
+
+  /**
+   * The agent's ledger wallet.
+   */
+  get wallet(): LocalWallet {
+    return this._wallet;
+  }
+
+  /**
+   * The address of the agent's ledger wallet.
+   */
+  get walletAddress(): string {
+    return this._wallet.address();
+  }
+
+  get prefix(): AddressPrefix {
+    return this._test ? TESTNET_PREFIX : MAINNET_PREFIX;
+  }
+
+  /**
+   * The agent identifier, in the form `prefix://address`.
+   */
+  get identifier(): string {
+    return `${this.prefix}://${this.address}`;
+  }
+
+  /**
+   * The port the agent server listens on.
+   */
+  get port(): number {
+    return this._server.port;
+  }
+
+  get version(): string {
+    return this._version;
+  }
+
+  get endpoints(): AgentEndpoint[] {
+    return this._endpoints;
+  }
+
+  get storage(): StorageAPI {
+    return this._storage;
+  }
+
+  get resolver(): Resolver {
+    return this._resolver;
+  }
+
+  get logger(): Logger {
+    return this._logger;
+  }
+
+  get metadata(): AgentMetadata {
+    return this._metadata;
+  }
+
+  /**
+   * The history of envelopes sent and received by the agent, or null if the
+   * agent inspector is disabled.
+   */
+  get messageHistory(): EnvelopeHistory | null {
+    return this._messageCache;
+  }
+
+  get agentverse(): AgentverseConfig {
+    return this._agentverse;
+  }
+
+  /**
+   * The client reading the agent mailbox, or null if the agent has no mailbox.
+   */
+  get mailboxClient(): MailboxClient | null {
+    return this._mailboxClient;
+  }
+
+  /**
+   * The client exchanging wallet messages, or null if wallet messaging is disabled.
+   */
+  get walletMessagingClient(): WalletMessagingClient | null {
+    return this._walletMessagingClient;
+  }
+
+  /**
+   * The envelopes waiting to be delivered, or null if the persistent outbox is
+   * disabled.
+   */
+  get outbox(): Outbox | null {
+    return this._dispenser.outbox;
+  }
+
+  /**
+   * Whether the agent has been started and not yet stopped.
+   */
+  get running(): boolean {
+    return this._running;
+  }
+
+  /**
+   * The protocols supported by the agent, keyed by protocol digest.
+   */
+  get protocols(): Record<string, Protocol> {
+    const protocols: Record<string, Protocol> = {};
+    for (const protocol of this._allProtocols()) {
+      protocols[protocol.digest!] = protocol;
+    }
+    return protocols;
+  }
+
+  /**
+   * The agent information used for registration.
+   */
+  get info(): AgentInfo {
+    return {
+      agent_address: this.address,
+      prefix: this.prefix,
+      endpoints: this._endpoints,
+      protocols: Object.keys(this.protocols),
+      metadata: this._registrationMetadata(),
+    };
+  }
+
+  /**
+   * Sign the provided digest with the agent signer.
+   *
+   * @param digest - The digest to sign.
+   * @returns The signature.
+   */
+  async signDigest(digest: Buffer): Promise<string> {
+    return await this._signer.signDigest(digest);
+  }
+
+  /**
+   * Sign the registration data for the Almanac contract.
+   *
+   * @param contractAddress - The address of the Almanac contract.
+   * @param sequence - The registration sequence.
+   * @param walletAddress - The wallet address paying for the registration.
+   * @returns The signature.
+   */
+  async signRegistration(contractAddress: string, sequence: number, walletAddress: string): Promise<string> {
+    return await this._signer.signDigest(
+      registrationDigest(contractAddress, this.address, sequence, walletAddress)
+    );
+  }
+
+  /**
+   * Decrypt the payload of an envelope encrypted for the agent, or for one of
+   * its previous addresses during the grace period of a key rotation.
+   *
+   * @param envelope - The envelope.
+   * @returns The decrypted payload.
+   * @throws Error if the envelope is not addressed to the agent or its signer cannot decrypt.
+   */
+  async decryptPayload(envelope: Envelope): Promise<string> {
+    const signer = envelope.target === this.address
+      ? this._signer
+      : this._previousSigners.get(envelope.target);
+    if (!signer) {
+      throw new Error(`Envelope is not addressed to ${this.address}`);
+    }
+    return await envelope.decryptPayload(signer);
+  }
+
+  /**
+   * Check that an envelope received by the agent is neither expired nor a
+   * replay of an envelope it already received.
+   *
+   * @param envelope - The envelope, after its signature was verified.
+   * @throws ReplayError if the envelope is expired or was already received.
+   */
+  checkReplay(envelope: Envelope): void {
+    this._replayCache.check(envelope);
+  }
+
+  /**
+   * Rotate the agent keys: move the agent to the address of a new signer,
+   * register the new address, and publish a moved-to record, signed with the
+   * previous key, in the registration of the previous address.
+   *
+   * During the grace period, the agent keeps receiving envelopes sent to its
+   * previous address and peers resolving that address follow the record to the
+   * new one. Agents whose keys are kept in the private keys file store the new
+   * identity there, and keep the previous key and the record until the end of
+   * the grace period, also across restarts; agents created from a seed or
+   * mnemonic go back to their previous address when restarted.
+   *
+   * @param options - The rotation options.
+   * @returns The signed moved-to record.
+   * @throws Error if the agent uses a mailbox, or if its keys are kept in the
+   * private keys file and the new signer is not an `Identity`.
+   */
+  async rotateKeys(options: KeyRotationOptions = {}): Promise<MovedToRecord> {
+    if (this._mailboxClient) {
+      throw new Error("Unable to rotate the keys of an agent using a mailbox");
+    }
+    const signer = options.signer ?? Identity.generate();
+    if (this._keyName && !(signer instanceof Identity)) {
+      throw new Error("Agents keeping their keys in the private keys file can only rotate to an Identity");
+    }
+    const previousAddress = this.address;
+    const previousSigner = this._signer;
+    const previousPolicy = this._registrationPolicy;
+    const gracePeriod = options.gracePeriodSeconds ?? KEY_ROTATION_GRACE_PERIOD_SECONDS;
+
+    const record = new MovedToRecord(
+      previousAddress,
+      signer.address,
+      Math.floor(Date.now() / 1000) + gracePeriod
+    );
+    await record.sign(this._signer);
+
+    if (this._keyName) {
+      new Keystore(process.cwd(), this._passphrase)
+        .rotate(this._keyName, signer as Identity, gracePeriod, JSON.stringify(record));
+    }
+    this._signer = signer;
+    this._previousSigners.set(previousAddress, previousSigner);
+    this._previousAddresses.set(previousAddress, { expires: record.expires, record, policy: previousPolicy });
+    this._representation = Agent._represent(signer, this._encryptPayloads);
+    this._registrationPolicy = options.registrationPolicy
+      ?? (this._defaultRegistrationPolicy
+        ? this._buildDefaultRegistrationPolicy(signer)
+        : previousPolicy);
+    dispatcher.register(this.address, this);
+    this._addToServer();
+    if (this._running) {
+      this._schedule(async () => this._retirePreviousAddress(previousAddress), gracePeriod);
+    }
+    log(`Rotated keys from ${previousAddress} to ${this.address}`, this._logger);
+
+    try {
+      await this.register();
+    } catch (error) {
+      log(`Failed to register the new address: ${error}`, this._logger);
+    }
+    return record;
+  }
+
+  /**
+   * Whether the agent runs as part of a bureau.
+   */
+  get inBureau(): boolean {
+    return this._inBureau;
+  }
+
+  /**
+   * Run the agent on a server shared with other agents. The agent then neither
+   * starts nor stops the server, and its registration is left to the owner of
+   * the server. Used by the `Bureau`.
+   *
+   * @param server - The shared server.
+   * @param endpoints - The endpoints used if the agent has none of its own.
+   * @throws Error if the agent is running or already runs on a shared server.
+   */
+  joinBureau(server: ASGIServer, endpoints: AgentEndpoint[]): void {
+    if (this._inBureau) {
+      throw new Error(`Agent ${this._name} is already part of a bureau`);
+    }
+    if (this._running) {
+      throw new Error("Unable to join a bureau while the agent is running");
+    }
+    this._inBureau = true;
+    this._server = server;
+    this._queries = server.queries;
+    this._addToServer();
+    if (this._endpoints.length === 0) {
+      this._endpoints = endpoints;
+    }
+  }
+
+  /**
+   * Register the agent using its registration policy, and publish the moved-to
+   * records of its previous addresses whose grace period has not ended.
+   */
+  async register(): Promise<void> {
+    if (this._endpoints.length === 0) {
+      log("Agent has no endpoints and will not be reachable from the network", this._logger);
+    }
+    try {
+      await this._registrationPolicy.register(
+        this.address,
+        Object.keys(this.protocols),
+        this._endpoints,
+        this._registrationMetadata()
+      );
+    } finally {
+      await this._publishMovedToRecords();
+    }
+  }
+
+  /**
+   * Start the agent: load the storage, connect the ledger, start the dispenser,
+   * run the startup handlers, start the server and the mailbox client, register
+   * the agent and start the interval tasks and the removal of expired storage
+   * values. Agents in a bureau leave the server and registration to the bureau.
+   *
+   * If the agent fails to start, e.g. because its port is in use, whatever was
+   * started is stopped again before the error is rethrown.
+   */
+  async setup(): Promise<void> {
+    this._running = true;
+    this._acceptingMessages = true;
+    try {
+      await this._storage.load?.();
+      await this._connectLedger();
+      if (!this._running) {
+        return;
+      }
+      void this._dispenser.run();
+      await this._runEventHandlers(this._onStartup, "startup");
+      if (!this._inBureau) {
+        await this._server.serve();
+      }
+      void this._mailboxClient?.run();
+      void this._walletMessagingClient?.run((message) => this._handleWalletMessage(message));
+      if (!this._inBureau) {
+        await this._registrationLoop();
+      }
+      for (const [func, period] of this._intervalHandlers()) {
+        void this._runInterval(func, period);
+      }
+      this._schedule(() => this._purgeExpiredStorage(), STORAGE_EXPIRY_INTERVAL_SECONDS);
+      for (const [address, { expires }] of this._previousAddresses) {
+        this._schedule(
+          async () => this._retirePreviousAddress(address),
+          Math.max(expires - Date.now() / 1000, 0)
+        );
+      }
+    } catch (error) {
+      await this._abortSetup();
+      throw error;
+    }
+  }
+
+  /**
+   * Run the agent until it is stopped, either by calling `stop()` or by receiving
+   * SIGINT or SIGTERM.
+   *
+   * @returns A promise that resolves once the agent has shut down.
+   */
+  async runAsync(): Promise<void> {
+    if (this._running) {
+      throw new Error("Agent is already running");
+    }
+    const stopped = new Promise<void>((resolve) => {
+      this._resolveStopped = resolve;
+    });
+    this._installSignalHandlers();
+    try {
+      await this.setup();
+    } catch (error) {
+      this._removeSignalHandlers();
+      this._resolveStopped = undefined;
+      throw error;
+    }
+    log(`Agent ${this._name} started with address ${this.address}`, this._logger);
+    await stopped;
+  }
+
+  /**
+   * Run the agent in the background until it is stopped.
+   */
+  run(): void {
+    this.runAsync().catch((error) => {
+      log(`Agent failed to run: ${error}`, this._logger);
+      process.exitCode = 1;
+    });
+  }
+
+  /**
+   * Gracefully stop the agent: stop the server and timers, wait for in-flight
+   * handlers until the shutdown deadline, run the shutdown handlers, stop the
+   * dispenser and flush the storage.
+   */
+  async stop(): Promise<void> {
+    if (!this._running) {
+      return;
+    }
+    this._running = false;
+    this._acceptingMessages = false;
+
+    this._timers.forEach((timer) => clearTimeout(timer));
+    this._timers.clear();
+    this._mailboxClient?.stop();
+    this._walletMessagingClient?.stop();
+
+    await Promise.all([
+      this._inBureau ? Promise.resolve() : this._server.stop(this._shutdownTimeout),
+      this._waitForInFlight(),
+    ]);
+    if (this._messageQueue.length > 0) {
+      log(`Dropping ${this._messageQueue.length} queued messages`, this._logger);
+      this._messageQueue.length = 0;
+    }
+    await this._runEventHandlers(this._onShutdown, "shutdown");
+    await this._dispenser.stop();
+    try {
+      await this._storage.flush();
+    } catch (error) {
+      log(`Failed to flush storage: ${error}`, this._logger);
+    }
+
+    this._removeSignalHandlers();
+    log(`Agent ${this._name} stopped`, this._logger);
+    this._resolveStopped?.();
+    this._resolveStopped = undefined;
+  }
+
+  /**
+   * Decorator to register an interval handler for the agent.
+   *
+   * @param period - The interval period in seconds.
+   * @param messages - The message types that may be sent by the handler.
+   * @returns The decorator to register the interval handler.
+   */
+  onInterval(period: number, messages?: Model<any> | Set<Model<any>>) {
+    return this._protocol.onInterval(period, messages);
+  }
+
+  /**
+   * Decorator to register a query handler for the agent.
+   *
+   * @param model - The query model type.
+   * @param replies - The allowed reply types.
+   * @returns The decorator to register the query handler.
+   */
+  onQuery(model: Model<any>, replies?: Model<any> | Set<Model<any>>) {
+    return this._protocol.onQuery(model, replies);
+  }
+
+  /**
+   * Decorator to register a message handler for the agent.
+   *
+   * @param model - The message model type.
+   * @param replies - The allowed reply types.
+   * @param allowUnverified - Whether to allow unverified messages. Defaults to false.
+   * @returns The decorator to register the message handler.
+   */
+  onMessage(
+    model: Model<any>,
+    replies?: Model<any> | Set<Model<any>>,
+    allowUnverified: boolean = false
+  ) {
+    return this._protocol.onMessage(model, replies, allowUnverified);
+  }
+
+  /**
+   * Decorator to register a REST GET handler served by the agent server.
+   *
+   * @param endpoint - The endpoint path.
+   * @param responseModel - The model the handler response is validated against.
+   * @returns The decorator to register the handler.
+   */
+  onRestGet(endpoint: string, responseModel: Model<any>) {
+    return (func: RestGetHandler) => {
+      this._addRestHandler("GET", endpoint, undefined, responseModel, func);
+      return func;
+    };
+  }
+
+  /**
+   * Decorator to register a REST POST handler served by the agent server.
+   *
+   * @param endpoint - The endpoint path.
+   * @param requestModel - The model the request body is validated against.
+   * @param responseModel - The model the handler response is validated against.
+   * @returns The decorator to register the handler.
+   */
+  onRestPost(endpoint: string, requestModel: Model<any>, responseModel: Model<any>) {
+    return (func: RestPostHandler) => {
+      this._addRestHandler("POST", endpoint, requestModel, responseModel, func);
+      return func;
+    };
+  }
+
+  /**
+   * Decorator to register an event handler for the agent.
+   *
+   * @param eventType - The event type, either "startup" or "shutdown".
+   * @returns The decorator to register the event handler.
+   */
+  onEvent(eventType: AgentEvent) {
+    return (func: EventCallback) => {
+      if (eventType === "startup") {
+        this._onStartup.push(func);
+      } else if (eventType === "shutdown") {
+        this._onShutdown.push(func);
+      } else {
+        throw new Error(`Unsupported event type: ${eventType}`);
+      }
+      return func;
+    };
+  }
+
+  /**
+   * Decorator to register a handler for the messages received by the agent's
+   * ledger wallet.
+   *
+   * @returns The decorator to register the wallet message handler.
+   */
+  onWalletMessage() {
+    return (func: WalletMessageCallback) => {
+      if (!this._walletMessagingClient) {
+        log("Wallet messaging is disabled: wallet message handlers will not be called", this._logger);
+      }
+      this._walletMessageHandlers.push(func);
+      return func;
+    };
+  }
+
+  /**
+   * Include a protocol into the agent's capabilities.
+   *
+   * @param protocol - The protocol to include.
+   * @param publishManifest - Whether to publish the protocol manifest. Defaults to false.
+   * @throws Error if the protocol declares a model or handler the agent already has.
+   */
+  include(protocol: Protocol, publishManifest: boolean = false): void {
+    const existing = this._allProtocols();
+    if (existing.includes(protocol)) {
+      throw new Error(`Protocol ${protocol.canonicalName} is already included`);
+    }
+    const handled = [
+      ...Object.keys(protocol.signedMessageHandlers),
+      ...Object.keys(protocol.unsignedMessageHandlers),
+    ];
+    for (const schemaDigest of handled) {
+      if (existing.some((p) =>
+        schemaDigest in p.signedMessageHandlers || schemaDigest in p.unsignedMessageHandlers
+      )) {
+        throw new Error(`Unable to register duplicate message handler: ${schemaDigest}`);
+      }
+    }
+    this._includedProtocols.push(protocol);
+
+    if (publishManifest) {
+      void this.publishManifest(protocol.manifest());
+    }
+  }
+
+  /**
+   * Publish a protocol manifest to the Almanac API.
+   *
+   * @param manifest - The protocol manifest.
+   */
+  async publishManifest(manifest: Record<string, any>): Promise<void> {
+    try {
+      const response = await fetch(`${ALMANAC_API_URL}/protocols`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(manifest),
+      });
+      if (!response.ok) {
+        log(`Failed to publish manifest: ${await response.text()}`, this._logger);
+        return;
+      }
+      log(`Manifest published successfully: ${manifest.metadata?.name}`, this._logger);
+    } catch (error) {
+      log(`Failed to publish manifest: ${error}`, this._logger);
+    }
+  }
+
+  /**
+   * Queue an incoming message addressed to the agent. Messages are handled one
+   * after the other, in the background, so the caller does not wait for the
+   * handler of the message: a reply to a sync message resolves the pending
+   * query instead.
+   *
+   * @param sender - The sender of the message.
+   * @param schemaDigest - The schema digest of the message.
+   * @param message - The JSON-encoded message.
+   * @param session - The session ID of the message.
+   */
+  async handleMessage(
+    sender: string,
+    schemaDigest: string,
+    message: string,
+    session: string
+  ): Promise<void> {
+    if (!this._acceptingMessages) {
+      log(`Agent is shutting down, dropping message from ${sender}`, this._logger);
+      return;
+    }
+    this._messageCache?.addEntry(new EnvelopeHistoryEntry({
+      version: 1,
+      sender,
+      target: this.address,
+      session,
+      schemaDigest,
+      payload: message,
+    }));
+    this._messageQueue.push([sender, schemaDigest, message, session]);
+    if (!this._processingQueue) {
+      this._processingQueue = true;
+      void this._track(this._processMessageQueue());
+    }
+  }
+
+  /**
+   * Handle an incoming REST request addressed to the agent.
+   *
+   * @param method - The HTTP method.
+   * @param endpoint - The endpoint path.
+   * @param message - The validated request body, or null for GET requests.
+   * @returns The handler response, or null if no handler is registered.
+   */
+  async handleRest(
+    method: RestMethod,
+    endpoint: string,
+    message: any | null
+  ): Promise<RestReturnType | null> {
+    const handler = this._restHandlers[`${method} ${endpoint}`];
+    if (!handler) {
+      return null;
+    }
+    return await handler(this._buildInternalContext(), message);
+  }
+
+  /**
+   * Build the context used by interval and event handlers.
+   */
+  protected _buildInternalContext(): InternalContext {
+    return new InternalContext(
+      this._representation,
+      this._contextStorage,
+      this._ledger,
+      this._resolver,
+      this._dispenser,
+      undefined,
+      this._intervalMessages(),
+      this._walletMessagingClient ?? undefined,
+      this._logger
+    );
+  }
+
+  private async _handleWalletMessage(message: WalletMessage): Promise<void> {
+    const context = this._buildInternalContext();
+    for (const handler of this._walletMessageHandlers) {
+      await handler(context, message);
+    }
+  }
+
+  private _addRestHandler(
+    method: RestMethod,
+    endpoint: string,
+    requestModel: Model<any> | undefined,
+    responseModel: Model<any>,
+    func: RestHandler
+  ): void {
+    if (!endpoint.startsWith("/")) {
+      throw new Error(`Endpoint must start with '/': ${endpoint}`);
+    }
+    const details: RestHandlerDetails = {
+      method,
+      endpoint,
+      request_model: requestModel,
+      response_model: responseModel,
+    };
+    this._server.addRestEndpoint(this.address, details);
+    this._restEndpoints.push(details);
+    this._restHandlers[`${method} ${endpoint}`] = func;
+  }
+
+  /**
+   * Serve the agent's REST endpoints, inspector and sync responses on its server.
+   */
+  private _addToServer(): void {
+    for (const details of this._restEndpoints) {
+      this._server.addRestEndpoint(this.address, details);
+    }
+    if (this._messageCache) {
+      this._server.addInspector(this.address, this);
+    }
+    this._server.addSigner(this.address, this._representation);
+  }
+
+  private _track(task: Promise<void>): Promise<void> {
+    const tracked = task.finally(() => this._inFlight.delete(tracked));
+    this._inFlight.add(tracked);
+    return tracked;
+  }
+
+  private _schedule(callback: () => Promise<void>, delaySeconds: number): void {
+    const timer = setTimeout(() => {
+      this._timers.delete(timer);
+      if (this._running) {
+        void callback();
+      }
+    }, delaySeconds * 1000);
+    this._timers.add(timer);
+  }
+
+  private async _runInterval(func: IntervalCallback, period: number): Promise<void> {
+    if (!this._running) {
+      return;
+    }
+    await this._track(
+      func(this._buildInternalContext()).catch((error) => {
+        log(`Error in interval handler: ${error}`, this._logger);
+      })
+    );
+    this._schedule(() => this._runInterval(func, period), period);
+  }
+
+  private async _purgeExpiredStorage(): Promise<void> {
+    try {
+      this._contextStorage.purgeExpired();
+    } catch (error) {
+      log(`Failed to remove expired storage values: ${error}`, this._logger);
+    }
+    this._schedule(() => this._purgeExpiredStorage(), STORAGE_EXPIRY_INTERVAL_SECONDS);
+  }
+
+  /**
+   * Build the default registration policy of a signer, registering on the
+   * Almanac contract as well once the ledger is connected.
+   */
+  private _buildDefaultRegistrationPolicy(signer: Signer): DefaultRegistrationPolicy {
+    return new DefaultRegistrationPolicy(
+      signer,
+      this._ledger,
+      this._wallet,
+      this._almanacContract,
+      this._test
+    );
+  }
+
+  /**
+   * Connect the ledger client of the agent wallet and rebuild the default
+   * registration policies with it. If the ledger is unreachable, the agent is
+   * only registered with the Almanac API.
+   */
+  private async _connectLedger(): Promise<void> {
+    if (this._ledger) {
+      return;
+    }
+    try {
+      const ledger = await this._wallet.connect(this._test);
+      this._almanacContract = (await getAlmanacContract(this._test)) ?? undefined;
+      this._ledger = ledger;
+    } catch (error) {
+      log(`Failed to connect to the ledger: ${error}`, this._logger);
+      return;
+    }
+    if (!this._defaultRegistrationPolicy) {
+      return;
+    }
+    this._registrationPolicy = this._buildDefaultRegistrationPolicy(this._signer);
+    for (const [address, previous] of this._previousAddresses) {
+      const signer = this._previousSigners.get(address);
+      if (signer) {
+        previous.policy = this._buildDefaultRegistrationPolicy(signer);
+      }
+    }
+  }
+
+  /**
+   * Keep receiving envelopes sent to the previous addresses of the agent whose
+   * grace period has not ended, as stored in the private keys file.
+   */
+  private _loadPreviousKeys(name: string): void {
+    const previous = new Keystore(process.cwd(), this._passphrase).previous(name);
+    for (const { identity, expires, movedTo } of previous) {
+      this._previousSigners.set(identity.address, identity);
+      this._previousAddresses.set(identity.address, {
+        expires,
+        record: movedTo ? MovedToRecord.fromJSON(movedTo) ?? undefined : undefined,
+        policy: this._defaultRegistrationPolicy
+          ? this._buildDefaultRegistrationPolicy(identity)
+          : this._registrationPolicy,
+      });
+      dispatcher.register(identity.address, this);
+    }
+  }
+
+  private async _publishMovedToRecords(): Promise<void> {
+    for (const [address, { record, policy }] of this._previousAddresses) {
+      if (!record || record.expired) {
+        continue;
+      }
+      try {
+        await policy.register(
+          address,
+          Object.keys(this.protocols),
+          this._endpoints,
+          { ...this._registrationMetadata(), moved_to: JSON.stringify(record) }
+        );
+      } catch (error) {
+        log(`Failed to publish the moved-to record: ${error}`, this._logger);
+      }
+    }
+  }
+
+  private async _retirePreviousAddress(address: string): Promise<void> {
+    dispatcher.unregister(address, this);
+    this._previousSigners.delete(address);
+    this._previousAddresses.delete(address);
+  }
+
+  private async _registrationLoop(): Promise<void> {
+    let nextRegistration = REGISTRATION_UPDATE_INTERVAL_SECONDS;
+    try {
+      await this.register();
+    } catch (error) {
+      nextRegistration = error instanceof InsufficientFundsError
+        ? 2 * AVERAGE_BLOCK_INTERVAL
+        : REGISTRATION_RETRY_INTERVAL_SECONDS;
+      log(`Failed to register agent: ${error}`, this._logger);
+    }
+    this._schedule(() => this._registrationLoop(), nextRegistration);
+  }
+
+  private async _runEventHandlers(handlers: EventCallback[], event: AgentEvent): Promise<void> {
+    for (const handler of handlers) {
+      try {
+        await handler(this._buildInternalContext());
+      } catch (error) {
+        log(`Error in ${event} handler: ${error}`, this._logger);
+      }
+    }
+  }
+
+  private async _waitForInFlight(): Promise<void> {
+    if (this._inFlight.size === 0) {
+      return;
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), this._shutdownTimeout * 1000);
+    });
+    const finished = await Promise.race([
+      Promise.all(this._inFlight).then(() => true),
+      deadline,
+    ]);
+    clearTimeout(timer);
+    if (!finished) {
+      log(
+        `Shutdown deadline reached with ${this._inFlight.size} handlers still running`,
+        this._logger
+      );
+    }
+  }
+
+  private async _abortSetup(): Promise<void> {
+    this._running = false;
+    this._acceptingMessages = false;
+    this._timers.forEach((timer) => clearTimeout(timer));
+    this._timers.clear();
+    this._mailboxClient?.stop();
+    this._walletMessagingClient?.stop();
+    if (!this._inBureau) {
+      await this._server.stop(0);
+    }
+    await this._dispenser.stop();
+  }
+
+  private _installSignalHandlers(): void {
+    this._signalHandler = () => {
+      log("Received shutdown signal", this._logger);
+      void this.stop();
+    };
+    for (const signal of SHUTDOWN_SIGNALS) {
+      process.on(signal, this._signalHandler);
+    }
+  }
+
+  private _removeSignalHandlers(): void {
+    if (!this._signalHandler) {
+      return;
+    }
+    for (const signal of SHUTDOWN_SIGNALS) {
+      process.off(signal, this._signalHandler);
+    }
+    this._signalHandler = undefined;
+  }
+
+  private _allProtocols(): Protocol[] {
+    return [this._protocol, ...this._includedProtocols];
+  }
+
+  private _intervalMessages(): Set<string> {
+    const messages = new Set<string>();
+    for (const protocol of this._allProtocols()) {
+      protocol.intervalMessages.forEach((digest) => messages.add(digest));
+    }
+    return messages;
+  }
+
+  private _intervalHandlers(): Array<[IntervalCallback, number]> {
+    return this._allProtocols().flatMap((protocol) => protocol.intervals);
+  }
+
+  private _replies(): Map<string, Map<string, Model<any>>> {
+    const replies = new Map<string, Map<string, Model<any>>>();
+    for (const protocol of this._allProtocols()) {
+      for (const [request, responses] of Object.entries(protocol.replies)) {
+        replies.set(request, new Map(Object.entries(responses)));
+      }
+    }
+    return replies;
+  }
+
+  private _registrationMetadata(): Record<string, string> | null {
+    const entries = Object.entries(this._metadata).filter(([, value]) => value !== undefined);
+    if (this._signer.deriveSharedSecret && !(ENCRYPTION_METADATA_KEY in this._metadata)) {
+      entries.push([ENCRYPTION_METADATA_KEY, PAYLOAD_ENCRYPTION]);
+    }
+    if (entries.length === 0) {
+      return null;
+    }
+    return Object.fromEntries(
+      entries.map(([key, value]) => [key, typeof value === "string" ? value : JSON.stringify(value)])
+    );
+  }
+
+  private async _processMessageQueue(): Promise<void> {
+    try {
+      let next: [string, string, string, string] | undefined;
+      while ((next = this._messageQueue.shift())) {
+        await this._processMessage(...next).catch((error) => {
+          log(`Failed to process message from ${next![0]}: ${error}`, this._logger);
+        });
+      }
+    } finally {
+      this._processingQueue = false;
+    }
+  }
+
+  private async _processMessage(
+    sender: string,
+    schemaDigest: string,
+    message: string,
+    session: string
+  ): Promise<void> {
+    const protocol = this._allProtocols().find((p) => schemaDigest in p.models);
+    const model = protocol?.models[schemaDigest];
+    if (!protocol || !model) {
+      log(`Received message with unrecognized schema digest: ${schemaDigest}`, this._logger);
+      return;
+    }
+
+    let recovered: any;
+    try {
+      recovered = model.validate(JSON.parse(message));
+    } catch (error) {
+      log(`Unable to parse message with schema digest ${schemaDigest}: ${error}`, this._logger);
+      return;
+    }
+
+    const context = new ExternalContext(
+      { message: recovered, schema_digest: schemaDigest },
+      this._representation,
+      this._contextStorage,
+      this._ledger,
+      this._resolver,
+      this._dispenser,
+      this._queries,
+      this._replies(),
+      [protocol.digest!, protocol],
+      session,
+      this._intervalMessages(),
+      this._walletMessagingClient ?? undefined,
+      this._logger
+    );
+
+    let handler: MessageCallback | undefined;
+    if (!isUserAddress(sender)) {
+      handler = protocol.signedMessageHandlers[schemaDigest];
+    }
+    handler = handler || protocol.unsignedMessageHandlers[schemaDigest];
+
+    if (!handler) {
+      if (schemaDigest in protocol.signedMessageHandlers) {
+        await context.sendRaw(
+          sender,
+          ERROR_MESSAGE_DIGEST,
+          JSON.stringify({ error: "Message must be sent from verified agent" })
+        );
+      }
+      return;
+    }
+
+    try {
+      await handler(context, sender, recovered);
+    } catch (error) {
+      log(`Error in message handler for ${schemaDigest}: ${error}`, this._logger);
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import {
+  AVERAGE_BLOCK_INTERVAL,
+  DEFAULT_SHUTDOWN_TIMEOUT_SECONDS,
+  REGISTRATION_RETRY_INTERVAL_SECONDS,
+  REGISTRATION_UPDATE_INTERVAL_SECONDS,
+  parseEndpointConfig,
+} from "./Config";
+import { Agent } from "./Agent";
+import { ASGIServer } from "./ASGI";
+import { InsufficientFundsError } from "./Network";
+import { BatchRegistrationPolicy, DefaultBatchRegistrationPolicy } from "./Registration";
+import { AgentEndpoint } from "./types";
+import { Future, getLogger, Logger, LogLevel, log } from "./utils";
+
+/**
+ * Options used to configure a bureau.
+ *
+ * @prop {number} port The port the bureau listens on for incoming envelopes. Defaults to 8000.
+ * @prop endpoint The endpoint configuration used by agents without endpoints of their own.
+ * @prop {Agent[]} agents The agents to add to the bureau.
+ * @prop {BatchRegistrationPolicy} registrationPolicy The policy used to register all agents at once.
+ * @prop {LogLevel} logLevel The log level of the bureau logger.
+ * @prop {number} shutdownTimeoutSeconds How long to wait for open requests on shutdown. Defaults to 10.
+ */
+export interface BureauOptions {
+  port?: number;
+  endpoint?: string | string[] | { [key: string]: any } | null;
+  agents?: Agent[];
+  registrationPolicy?: BatchRegistrationPolicy;
+  logLevel?: LogLevel;
+  shutdownTimeoutSeconds?: number;
+}
+
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
+/**
+ * A collection of agents running in the same process and served on a single
+ * HTTP port.
+ *
+ * The bureau registers all of its agents with one batch registration. Agents in
+ * the bureau are registered with the dispatcher like any other agent, so the
+ * envelopes they send to each other are dispatched in memory.
+ */
+export class Bureau {
+  private _agents: Agent[] = [];
+  private _endpoints: AgentEndpoint[];
+  private _server: ASGIServer;
+  private _registrationPolicy: BatchRegistrationPolicy;
+  private _logger: Logger;
+  private _shutdownTimeout: number;
+  private _running: boolean = false;
+  private _registrationTimer?: ReturnType<typeof setTimeout>;
+  private _signalHandler?: () => void;
+  private _resolveStopped?: () => void;
+
+  /**
+   * Initialize a Bureau instance.
+   *
+   * @param options - The bureau configuration.
+   */
+  constructor(options: BureauOptions = {}) {
+    this._logger = getLogger(options.logLevel ?? LogLevel.INFO, "bureau");
+    this._endpoints = parseEndpointConfig(options.endpoint ?? null);
+    this._server = new ASGIServer(
+      options.port ?? 8000,
+      new Map<string, Future<[string, string]>>(),
+      this._logger
+    );
+    this._registrationPolicy = options.registrationPolicy || new DefaultBatchRegistrationPolicy();
+    this._shutdownTimeout = options.shutdownTimeoutSeconds ?? DEFAULT_SHUTDOWN_TIMEOUT_SECONDS;
+    for (const agent of options.agents ?? []) {
+      this.add(agent);
+    }
+  }
+
+  get agents(): Agent[] {
+    return this._agents;
+  }
+
+  /**
+   * The port the bureau server listens on.
+   */
+  get port(): number {
+    return this._server.port;
+  }
+
+  /**
+   * Whether the bureau has been started and not yet stopped.
+   */
+  get running(): boolean {
+    return this._running;
+  }
+
+  /**
+   * Add an agent to the bureau.
+   *
+   * @param agent - The agent to add.
+   * @throws Error if the bureau is running or the agent is already in a bureau.
+   */
+  add(agent: Agent): void {
+    if (this._running) {
+      throw new Error("Unable to add agents to a running bureau");
+    }
+    agent.joinBureau(this._server, this._endpoints);
+    this._agents.push(agent);
+  }
+
+  /**
+   * Register all agents of the bureau using the batch registration policy. The
+   * batch is built again from the current information of the agents, so
+   * changed endpoints, metadata and rotated keys are registered.
+   */
+  async register(): Promise<void> {
+    this._registrationPolicy.clear();
+    for (const agent of this._agents) {
+      this._registrationPolicy.addAgent(agent.info, agent.signer);
+    }
+    await this._registrationPolicy.register();
+  }
+
+  /**
+   * Start the bureau: start its agents and the server, then register the agents.
+   * If the bureau fails to start, the agents started so far are stopped again
+   * before the error is rethrown.
+   */
+  async setup(): Promise<void> {
+    if (this._running) {
+      return;
+    }
+    this._running = true;
+    try {
+      for (const agent of this._agents) {
+        await agent.setup();
+      }
+      await this._server.serve();
+    } catch (error) {
+      this._running = false;
+      await this._server.stop(0);
+      await Promise.all(this._agents.map((agent) => agent.stop()));
+      throw error;
+    }
+    await this._registrationLoop();
+  }
+
+  /**
+   * Run the bureau until it is stopped, either by calling `stop()` or by
+   * receiving SIGINT or SIGTERM.
+   *
+   * @returns A promise that resolves once the bureau has shut down.
+   */
+  async runAsync(): Promise<void> {
+    if (this._running) {
+      throw new Error("Bureau is already running");
+    }
+    const stopped = new Promise<void>((resolve) => {
+      this._resolveStopped = resolve;
+    });
+    this._installSignalHandlers();
+    try {
+      await this.setup();
+    } catch (error) {
+      this._removeSignalHandlers();
+      this._resolveStopped = undefined;
+      throw error;
+    }
+    log(`Bureau started with ${this._agents.length} agents`, this._logger);
+    await stopped;
+  }
+
+  /**
+   * Run the bureau in the background until it is stopped.
+   */
+  run(): void {
+    this.runAsync().catch((error) => {
+      log(`Bureau failed to run: ${error}`, this._logger);
+      process.exitCode = 1;
+    });
+  }
+
+  /**
+   * Gracefully stop the bureau: stop the server, then stop all agents.
+   */
+  async stop(): Promise<void> {
+    if (!this._running) {
+      return;
+    }
+    this._running = false;
+    clearTimeout(this._registrationTimer);
+    this._registrationTimer = undefined;
+
+    await this._server.stop(this._shutdownTimeout);
+    await Promise.all(this._agents.map((agent) => agent.stop()));
+
+    this._removeSignalHandlers();
+    log("Bureau stopped", this._logger);
+    this._resolveStopped?.();
+    this._resolveStopped = undefined;
+  }
+
+  private async _registrationLoop(): Promise<void> {
+    let nextRegistration = REGISTRATION_UPDATE_INTERVAL_SECONDS;
+    try {
+      await this.register();
+    } catch (error) {
+      nextRegistration = error instanceof InsufficientFundsError
+        ? 2 * AVERAGE_BLOCK_INTERVAL
+        : REGISTRATION_RETRY_INTERVAL_SECONDS;
+      log(`Failed to register bureau agents: ${error}`, this._logger);
+    }
+    if (!this._running) {
+      return;
+    }
+    this._registrationTimer = setTimeout(() => {
+      this._registrationTimer = undefined;
+      if (this._running) {
+        void this._registrationLoop();
+      }
+    }, nextRegistration * 1000);
+  }
+
+  private _installSignalHandlers(): void {
+    this._signalHandler = () => {
+      log("Received shutdown signal", this._logger);
+      void this.stop();
+    };
+    for (const signal of SHUTDOWN_SIGNALS) {
+      process.on(signal, this._signalHandler);
+    }
+  }
+
+  private _removeSignalHandlers(): void {
+    if (!this._signalHandler) {
+      return;
+    }
+    for (const signal of SHUTDOWN_SIGNALS) {
+      process.off(signal, this._signalHandler);
+    }
+    this._signalHandler = undefined;
+  }
+}
@@ -1,23 +1,299 @@
 import { v4 as uuidv4 } from 'uuid';
 
-import { DEFAULT_ENVELOPE_TIMEOUT_SECONDS } from "./Config";
-import { Identity, isUserAddress } from "./crypto";
+import {
+  DEFAULT_DELIVERY_BACKOFF_SECONDS,
+  DEFAULT_DELIVERY_JITTER,
+  DEFAULT_DELIVERY_MAX_ATTEMPTS,
+  DEFAULT_DELIVERY_MAX_BACKOFF_SECONDS,
+  DEFAULT_ENVELOPE_TIMEOUT_SECONDS,
+  ENDPOINT_COOLDOWN_SECONDS,
+  ENDPOINT_FAILURE_THRESHOLD,
+  OUTBOX_MAX_AGE_SECONDS,
+  OUTBOX_RETRY_INTERVAL_SECONDS,
+} from "./Config";
+import { Identity, Signer, isUserAddress } from "./crypto";
 import { dispatcher } from "./Dispatch";
-import { Envelope, EnvelopeHistory, EnvelopeHistoryEntry } from "./Envelope";
+import {
+  EncodedEnvelope,
+  JSON_CONTENT_TYPE,
+  WireFormat,
+  decodeEnvelope,
+  encodeEnvelope,
+  parseWireFormat,
+} from "./Encoding";
+import { Envelope, EnvelopeHistory, EnvelopeHistoryEntry, generateNonce } from "./Envelope";
 import { Model } from "./model";
 import { GlobalResolver, Resolver } from "./Resolver";
+import { INTERNAL_KEY_PREFIX, StorageAPI } from "./Storage";
 import { DeliveryStatus, MsgStatus } from "./types";
-import { getLogger, LogLevel, log } from "./utils";
+import { Future, generateBackoffTime, getLogger, LogLevel, log } from "./utils";
 
 const logger = getLogger(LogLevel.DEBUG, "dispenser");
 
+/**
+ * Policy used to retry failed deliveries.
+ *
+ * @prop {number} maxAttempts The maximum number of delivery attempts per endpoint.
+ * @prop {number} backoffSeconds The delay before the first retry, doubled with every retry.
+ * @prop {number} maxBackoffSeconds The maximum delay between retries.
+ * @prop {number} jitter The fraction of each delay that is randomized, between 0 and 1.
+ */
+export type RetryPolicy = {
+  maxAttempts: number;
+  backoffSeconds: number;
+  maxBackoffSeconds: number;
+  jitter: number;
+};
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: DEFAULT_DELIVERY_MAX_ATTEMPTS,
+  backoffSeconds: DEFAULT_DELIVERY_BACKOFF_SECONDS,
+  maxBackoffSeconds: DEFAULT_DELIVERY_MAX_BACKOFF_SECONDS,
+  jitter: DEFAULT_DELIVERY_JITTER,
+};
+
+/**
+ * Tracks consecutive delivery failures per endpoint.
+ *
+ * Acts as a circuit breaker: once an endpoint has failed `failureThreshold` times
+ * in a row it is skipped for `cooldownSeconds`, after which a single attempt is
+ * allowed again. A successful delivery resets the endpoint.
+ *
+ * Endpoints that rejected the configured wire format with 415 are remembered
+ * too, and only sent uncompressed JSON from then on.
+ */
+class EndpointHealth {
+  private _failureThreshold: number;
+  private _cooldownSeconds: number;
+  private _failures: Map<string, number> = new Map();
+  private _openUntil: Map<string, number> = new Map();
+  private _jsonOnly: Set<string> = new Set();
+
+  constructor(
+    failureThreshold: number = ENDPOINT_FAILURE_THRESHOLD,
+    cooldownSeconds: number = ENDPOINT_COOLDOWN_SECONDS
+  ) {
+    this._failureThreshold = failureThreshold;
+    this._cooldownSeconds = cooldownSeconds;
+  }
+
+  /**
+   * Check whether deliveries to the endpoint should be attempted.
+   */
+  isAvailable(endpoint: string): boolean {
+    const openUntil = this._openUntil.get(endpoint);
+    return openUntil === undefined || Date.now() >= openUntil;
+  }
+
+  recordSuccess(endpoint: string): void {
+    this._failures.delete(endpoint);
+    this._openUntil.delete(endpoint);
+  }
+
+  recordFailure(endpoint: string): void {
+    const failures = (this._failures.get(endpoint) ?? 0) + 1;
+    this._failures.set(endpoint, failures);
+    if (failures >= this._failureThreshold) {
+      this._openUntil.set(endpoint, Date.now() + this._cooldownSeconds * 1000);
+    }
+  }
+
+  /**
+   * Check whether the endpoint only accepts uncompressed JSON envelopes.
+   */
+  isJsonOnly(endpoint: string): boolean {
+    return this._jsonOnly.has(endpoint);
+  }
+
+  recordUnsupportedFormat(endpoint: string): void {
+    this._jsonOnly.add(endpoint);
+  }
+}
+
+const endpointHealth = new EndpointHealth();
+
+const OUTBOX_KEY_PREFIX = `${INTERNAL_KEY_PREFIX}outbox/`;
+
+/**
+ * An envelope waiting in the outbox to be delivered.
+ *
+ * @prop {string} id The outbox entry ID.
+ * @prop {Envelope} envelope The envelope to send.
+ * @prop {string[]} endpoints The endpoints to send the envelope to.
+ * @prop {boolean} sync True if the message is synchronous.
+ * @prop {number} queuedAt The time the envelope was queued, in seconds since the epoch.
+ */
+export type OutboxEntry = {
+  id: string;
+  envelope: Envelope;
+  endpoints: string[];
+  sync: boolean;
+  queuedAt: number;
+};
+
+/**
+ * A durable queue of outgoing envelopes, kept in the agent storage with one
+ * internal key per envelope, which handlers cannot reach.
+ *
+ * Envelopes are written to the outbox, and flushed to the storage, before they
+ * are sent and removed once they are delivered, so that envelopes pending when
+ * the process stops can be sent again on the next start. Envelopes that could
+ * not be delivered are retried periodically until they expire, or are dropped
+ * once they are older than the maximum age if they do not expire.
+ */
+class Outbox {
+  private _storage: StorageAPI;
+  private _retryInterval: number;
+  private _maxAge: number;
+
+  /**
+   * Initialize the outbox.
+   *
+   * @param storage - The storage holding the outbox.
+   * @param retryIntervalSeconds - How often undelivered envelopes are sent again.
+   * @param maxAgeSeconds - How long envelopes without expiry are kept in the outbox.
+   */
+  constructor(
+    storage: StorageAPI,
+    retryIntervalSeconds: number = OUTBOX_RETRY_INTERVAL_SECONDS,
+    maxAgeSeconds: number = OUTBOX_MAX_AGE_SECONDS
+  ) {
+    this._storage = storage;
+    this._retryInterval = retryIntervalSeconds;
+    this._maxAge = maxAgeSeconds;
+  }
+
+  /**
+   * How often undelivered envelopes are sent again, in seconds.
+   */
+  get retryInterval(): number {
+    return this._retryInterval;
+  }
+
+  /**
+   * Write an envelope to the outbox.
+   *
+   * @returns The ID of the outbox entry.
+   */
+  add(envelope: Envelope, endpoints: string[], sync: boolean = false): string {
+    const id = uuidv4();
+    this._storage.set(OUTBOX_KEY_PREFIX + id, {
+      envelope: envelope.toJSON(),
+      endpoints,
+      sync,
+      queued_at: Math.floor(Date.now() / 1000),
+    });
+    return id;
+  }
+
+  /**
+   * Remove an entry from the outbox.
+   *
+   * @param id - The ID of the outbox entry.
+   */
+  remove(id: string): void {
+    this._storage.remove(OUTBOX_KEY_PREFIX + id);
+  }
+
+  /**
+   * List the envelopes waiting in the outbox, oldest first.
+   */
+  list(): OutboxEntry[] {
+    return this._storage.keys()
+      .filter((key) => key.startsWith(OUTBOX_KEY_PREFIX))
+      .map((key) => [key.slice(OUTBOX_KEY_PREFIX.length), this._storage.get(key)])
+      .map(([id, record]) => ({
+        id,
+        envelope: Envelope.modelValidate(record.envelope),
+        endpoints: record.endpoints,
+        sync: record.sync,
+        queuedAt: record.queued_at,
+      }))
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  /**
+   * Check whether an entry should no longer be sent: it has expired or, if it
+   * does not expire, it is older than the maximum age.
+   */
+  isStale(entry: OutboxEntry): boolean {
+    const now = Math.floor(Date.now() / 1000);
+    if (entry.envelope.expires !== undefined) {
+      return entry.envelope.expires < now;
+    }
+    return entry.queuedAt + this._maxAge < now;
+  }
+
+  /**
+   * Wait until the outbox has been written to the storage.
+   */
+  async flush(): Promise<void> {
+    await this._storage.flush();
+  }
+
+  /**
+   * Remove entries from the outbox.
+   *
+   * @param predicate - Selects the entries to remove. Defaults to all entries.
+   * @returns The number of removed entries.
+   */
+  purge(predicate: (entry: OutboxEntry) => boolean = () => true): number {
+    const removed = this.list().filter(predicate);
+    for (const entry of removed) {
+      this.remove(entry.id);
+    }
+    return removed.length;
+  }
+}
+
+type PendingEnvelope = {
+  envelope: Envelope;
+  endpoints: string[];
+  responseFuture: Future<MsgStatus | Envelope>;
+  sync: boolean;
+  outboxId?: string;
+};
+
+/**
+ * Sends queued envelopes to their endpoints.
+ *
+ * Envelopes added while the dispenser is running are sent concurrently. The
+ * response future of each envelope is resolved with the delivery status, or with
+ * the response envelope for sync messages, and the sent envelope is recorded in
+ * the message history if one is provided.
+ *
+ * With an outbox, envelopes are persisted until they are delivered, and the
+ * envelopes left in the outbox are sent again when the dispenser starts and
+ * then periodically, until they go stale. Envelopes are sent in the given wire
+ * format.
+ */
 class Dispenser {
-  private _envelopes: { envelope: Envelope; strings: string[]; future: Promise<any>; flag: boolean; }[];
+  private _envelopes: PendingEnvelope[];
   private _msgCacheRef: EnvelopeHistory | null;
+  private _retryPolicy: RetryPolicy;
+  private _outbox: Outbox | null;
+  private _wireFormat: WireFormat;
+  private _running: boolean = false;
+  private _wakeup: Future<void> | null = null;
+  private _sending: Set<Promise<void>> = new Set();
+  private _outboxIds: Set<string> = new Set();
+  private _outboxTimer: ReturnType<typeof setTimeout> | undefined;
 
-  constructor(msgCacheRef?: EnvelopeHistory) {
+  constructor(
+    msgCacheRef?: EnvelopeHistory,
+    retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    outbox?: Outbox,
+    wireFormat: WireFormat = {}
+  ) {
     this._envelopes = [];
     this._msgCacheRef = msgCacheRef || null;
+    this._retryPolicy = retryPolicy;
+    this._outbox = outbox || null;
+    this._wireFormat = wireFormat;
+  }
+
+  get outbox(): Outbox | null {
+    return this._outbox;
   }
 
   /**
@@ -31,20 +307,121 @@ class Dispenser {
   addEnvelope(
     envelope: Envelope,
     endpoints: string[],
-    responseFuture: Promise<any>,
+    responseFuture: Future<MsgStatus | Envelope>,
     sync: boolean = false
   ): void {
-    this._envelopes.push({ envelope, strings: endpoints, future: responseFuture, flag: sync });
+    const outboxId = this._outbox?.add(envelope, endpoints, sync);
+    if (outboxId) {
+      this._outboxIds.add(outboxId);
+    }
+    this._envelopes.push({ envelope, endpoints, responseFuture, sync, outboxId });
+    this._wakeup?.setResult();
   }
 
   /**
-   * Executes the dispenser routine.
+   * Executes the dispenser routine until `stop()` is called.
    */
   async run(): Promise<void> {
-    while (true) {
-      return
+    if (this._running) {
+      return;
+    }
+    this._running = true;
+    this._replayOutbox();
+    while (this._running) {
+      const envelopes = this._envelopes.splice(0);
+      for (const pending of envelopes) {
+        const sending = this._dispense(pending);
+        this._sending.add(sending);
+        void sending.finally(() => this._sending.delete(sending));
+      }
+      if (this._envelopes.length === 0 && this._running) {
+        this._wakeup = new Future<void>();
+        await this._wakeup.promise;
+        this._wakeup = null;
+      }
     }
   }
+
+  /**
+   * Stop the dispenser routine and wait for the envelopes being sent.
+   */
+  async stop(): Promise<void> {
+    this._running = false;
+    clearTimeout(this._outboxTimer);
+    this._outboxTimer = undefined;
+    this._wakeup?.setResult();
+    await Promise.allSettled(Array.from(this._sending));
+  }
+
+  /**
+   * Queue the envelopes of the outbox that are not being sent, dropping the
+   * stale ones, and schedule the next replay.
+   */
+  private _replayOutbox(): void {
+    const outbox = this._outbox;
+    if (!outbox) {
+      return;
+    }
+    for (const entry of outbox.list()) {
+      const { id, envelope, endpoints, sync } = entry;
+      if (this._outboxIds.has(id)) {
+        continue;
+      }
+      if (outbox.isStale(entry)) {
+        log(`Dropping undelivered envelope ${id} from the outbox: it is stale`, logger);
+        outbox.remove(id);
+        continue;
+      }
+      // nobody awaits the response of a replayed envelope
+      const responseFuture = new Future<MsgStatus | Envelope>();
+      responseFuture.promise.catch(() => {});
+      this._outboxIds.add(id);
+      this._envelopes.push({ envelope, endpoints, responseFuture, sync, outboxId: id });
+    }
+    this._outboxTimer = setTimeout(() => {
+      this._outboxTimer = undefined;
+      if (this._running) {
+        this._replayOutbox();
+        this._wakeup?.setResult();
+      }
+    }, outbox.retryInterval * 1000);
+  }
+
+  private async _dispense({
+    envelope,
+    endpoints,
+    responseFuture,
+    sync,
+    outboxId,
+  }: PendingEnvelope): Promise<void> {
+    try {
+      if (outboxId) {
+        await this._outbox?.flush().catch((error) => {
+          log(`Failed to persist envelope ${outboxId} in the outbox: ${error}`, logger);
+        });
+      }
+      const result = await sendExchangeEnvelope(
+        envelope,
+        endpoints,
+        sync,
+        this._retryPolicy,
+        undefined,
+        this._wireFormat
+      );
+      if (outboxId && (result instanceof Envelope || result.status === DeliveryStatus.DELIVERED)) {
+        this._outbox?.remove(outboxId);
+      }
+      responseFuture.setResult(result);
+    } catch (ex) {
+      log(`Failed to send envelope: ${ex}`, logger);
+      responseFuture.setException(ex);
+    } finally {
+      if (outboxId) {
+        this._outboxIds.delete(outboxId);
+      }
+    }
+    this._msgCacheRef?.addEntry(EnvelopeHistoryEntry.fromEnvelope(envelope));
+  }
 }
 
 async function dispatchLocalMessage(
@@ -64,84 +441,178 @@ async function dispatchLocalMessage(
   } as MsgStatus;
 }
 
+type DeliveryAttempt =
+  | { response: MsgStatus | Envelope }
+  | { error: string; retry: boolean; unsupportedFormat?: boolean };
+
+/**
+ * Attempt a single delivery of an envelope to an endpoint.
+ */
+async function deliverToEndpoint(
+  envelope: Envelope,
+  endpoint: string,
+  headers: {[key: string]: string},
+  body: Buffer,
+  sync: boolean
+): Promise<DeliveryAttempt> {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: "POST",
+      headers,
+      body,
+    });
+  } catch (ex) {
+    return { error: `Failed to send message: ${ex}`, retry: true };
+  }
+
+  if (!response.ok) {
+    // client errors other than timeouts and rate limits will not succeed on retry
+    const retry = response.status >= 500 || response.status === 408 || response.status === 429;
+    const body = await response.text().catch(() => "");
+    return { error: `HTTP ${response.status}: ${body}`, retry, unsupportedFormat: response.status === 415 };
+  }
+
+  if (!sync) {
+    return {
+      response: {
+        status: DeliveryStatus.DELIVERED,
+        detail: "Message successfully delivered via HTTP",
+        destination: envelope.target,
+        endpoint,
+        session: envelope.session,
+      },
+    };
+  }
+
+  let env: Envelope;
+  try {
+    // fetch has already decompressed the body, whatever its content-encoding
+    const format = parseWireFormat(response.headers.get("content-type") ?? undefined);
+    env = decodeEnvelope(Buffer.from(await response.arrayBuffer()), format);
+    if (env.signature) {
+      env.verify();
+    }
+  } catch (ex) {
+    return { error: `Received response envelope that failed verification: ${ex}`, retry: false };
+  }
+  return { response: await dispatchSyncResponseEnvelope(env) };
+}
+
 /**
  * Method to send an exchange envelope.
  *
+ * Each endpoint is tried in order. Endpoints failing with a network or server
+ * error are retried with exponential backoff and jitter, until the envelope
+ * expires or the policy's attempts are used up. Endpoints that keep failing are
+ * skipped for a while, see `EndpointHealth`. Endpoints rejecting the wire
+ * format with 415 are sent the envelope again as uncompressed JSON, which every
+ * agent understands, and are remembered as such.
+ *
  * @param envelope - The envelope to send.
  * @param endpoints - The endpoints to send the envelope to.
  * @param sync - True if the message is synchronous. Defaults to False.
+ * @param retryPolicy - The policy used to retry failed deliveries.
+ * @param health - The endpoint health tracker. Defaults to the shared tracker.
+ * @param wireFormat - The wire format of the envelope. Defaults to uncompressed JSON.
  * @returns The status of the message delivery.
  */
 async function sendExchangeEnvelope(
   envelope: Envelope,
   endpoints: string[],
-  sync: boolean = false
+  sync: boolean = false,
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  health: EndpointHealth = endpointHealth,
+  wireFormat: WireFormat = {}
 ): Promise<MsgStatus | Envelope> {
-  const headers: {[key: string]: string} = { "content-type": "application/json" };
-  if (sync) {
-    headers["x-uagents-connection"] = "sync";
-  }
+  const encode = (format: WireFormat): EncodedEnvelope => {
+    const encoded = encodeEnvelope(envelope, format);
+    if (sync) {
+      encoded.headers["x-uagents-connection"] = "sync";
+    }
+    return encoded;
+  };
+  const preferred = encode(wireFormat);
+  const plain = isPlainJson(preferred) ? preferred : encode({});
 
-  const errors: string[] = [];
-  for (const endpoint of endpoints) {
-    try {
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(envelope),
-      });
-
-      if (response.ok) {
-        if (sync) {
-          const env = Envelope.modelValidate(await response.json());
-          if (env.signature) {
-            let verified = false;
-            try {
-              env.verify();
-              verified = true;
-            } catch (ex) {
-              errors.push(`Received response envelope that failed verification: ${ex}`);
-            }
-            if (!verified) {
-              continue;
-            }
-          }
-          return await dispatchSyncResponseEnvelope(env);
+  const attempts: Map<string, number> = new Map(endpoints.map((endpoint) => [endpoint, 0]));
+  const errors: Map<string, string> = new Map();
+  let pending = endpoints.filter((endpoint) => {
+    if (!health.isAvailable(endpoint)) {
+      errors.set(endpoint, "skipped after repeated failures");
+      return false;
+    }
+    return true;
+  });
+
+  for (let attempt = 0; attempt < retryPolicy.maxAttempts && pending.length > 0; attempt++) {
+    if (attempt > 0) {
+      const backoff = generateBackoffTime(
+        attempt - 1,
+        retryPolicy.backoffSeconds,
+        retryPolicy.maxBackoffSeconds
+      );
+      const delay = backoff * (1 - retryPolicy.jitter * Math.random());
+      if (envelope.expires !== undefined && Date.now() / 1000 + delay >= envelope.expires) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay * 1000));
+    }
+
+    const retryable: string[] = [];
+    for (const endpoint of pending) {
+      attempts.set(endpoint, attempts.get(endpoint)! + 1);
+      const { body, headers } = health.isJsonOnly(endpoint) ? plain : preferred;
+      let result = await deliverToEndpoint(envelope, endpoint, headers, body, sync);
+      if ("error" in result && result.unsupportedFormat && body !== plain.body) {
+        health.recordUnsupportedFormat(endpoint);
+        result = await deliverToEndpoint(envelope, endpoint, plain.headers, plain.body, sync);
+      }
+      if ("response" in result) {
+        health.recordSuccess(endpoint);
+        if (!(result.response instanceof Envelope) && attempt > 0) {
+          result.response.detail += ` after ${attempt + 1} attempts`;
+        }
+        return result.response;
+      }
+      errors.set(endpoint, result.error);
+      if (result.retry) {
+        health.recordFailure(endpoint);
+        if (health.isAvailable(endpoint)) {
+          retryable.push(endpoint);
         }
-        return {
-          status: DeliveryStatus.DELIVERED,
-          detail: "Message successfully delivered via HTTP",
-          destination: envelope.target,
-          endpoint,
-          session: envelope.session,
-        };
       }
-      errors.push(await response.text());
-    } catch (ex) {
-      errors.push(`Failed to send message: ${ex}`);
     }
+    pending = retryable;
   }
 
   // If here, message delivery to all endpoints failed
-  log(`Failed to deliver message to ${envelope.target} @ ${endpoints}: ${errors.join(", ")}`, logger);
+  const summary = endpoints
+    .map((endpoint) => `${endpoint} (${attempts.get(endpoint)} attempts): ${errors.get(endpoint)}`)
+    .join("; ");
+  log(`Failed to deliver message to ${envelope.target}: ${summary}`, logger);
   return {
     status: DeliveryStatus.FAILED,
-    detail: "Message delivery failed",
+    detail: `Message delivery failed: ${summary}`,
     destination: envelope.target,
     endpoint: "",
     session: envelope.session,
   } as MsgStatus;
 }
 
+function isPlainJson({ headers }: EncodedEnvelope): boolean {
+  return headers["content-type"] === JSON_CONTENT_TYPE && !headers["content-encoding"];
+}
+
 async function dispatchSyncResponseEnvelope(env: Envelope): Promise<MsgStatus | Envelope> {
-  // If there are no sinks registered, return the envelope back to the caller
-  if (dispatcher.sinks.size === 0) return env;
+  // If the target is not a local agent, return the envelope back to the caller
+  if (!dispatcher.contains(env.target)) return env;
   
   await dispatcher.dispatchMsg(
     env.sender,
     env.target,
     env.schemaDigest,
-    env.decodePayload(),
+    await dispatcher.decodePayload(env),
     env.session
   );
   return {
@@ -160,7 +631,7 @@ async function dispatchSyncResponseEnvelope(env: Envelope): Promise<MsgStatus |
  * @param messageSchemaDigest - The schema digest of the message.
  * @param messageBody - The JSON-formatted message to be sent.
  * @param responseType - The optional type of the response message.
- * @param sender - The optional sender identity or user address.
+ * @param sender - The optional sender signer, e.g. its identity, or a user address.
  * @param resolver - The optional resolver for address-to-endpoint resolution.
  * @param timeout - The timeout for the message response in seconds. Defaults to 30.
  * @param sync - True if the message is synchronous.
@@ -171,7 +642,7 @@ async function sendMessageRaw(
   messageSchemaDigest: string,
   messageBody: string,
   responseType?: any,
-  sender?: Identity | string,
+  sender?: Signer | string,
   resolver?: Resolver,
   timeout: number = DEFAULT_ENVELOPE_TIMEOUT_SECONDS,
   sync: boolean = false
@@ -183,8 +654,8 @@ async function sendMessageRaw(
   if (!sender) {
     sender = Identity.generate();
   }
-  if (sender instanceof Identity) {
-    senderAddress = sender.getAddress;
+  if (typeof sender !== 'string') {
+    senderAddress = sender.address;
   }
   if (!senderAddress) {
     throw new Error("Invalid sender address");
@@ -210,10 +681,11 @@ async function sendMessageRaw(
     session: uuidv4(),
     schemaDigest: messageSchemaDigest,
     expires: Math.floor(Date.now() / 1000) + timeout,
+    nonce: generateNonce(),
   });
   env.encodePayload(messageBody);
-  if (!isUserAddress(senderAddress) && sender instanceof Identity) {
-    env.sign(sender);
+  if (!isUserAddress(senderAddress) && typeof sender !== 'string') {
+    await env.sign(sender);
   }
 
   const response = await sendExchangeEnvelope(
@@ -225,9 +697,11 @@ async function sendMessageRaw(
     if (!env.signature) {
       return response;
     }
-    const jsonMessage = response.decodePayload();
+    const jsonMessage = typeof sender === 'string'
+      ? response.decodePayload()
+      : await response.decryptPayload(sender);
     if (responseType) {
-      return responseType.modelValidateJson(jsonMessage);
+      return responseType.validate(JSON.parse(jsonMessage));
     }
     return jsonMessage;
   }
@@ -240,7 +714,7 @@ async function sendMessageRaw(
  * @param destination - The destination address to send the message to.
  * @param message - The message to be sent.
  * @param responseType - The optional type of the response message.
- * @param sender - The optional sender identity or user address.
+ * @param sender - The optional sender signer, e.g. its identity, or a user address.
  * @param resolver - The optional resolver for address-to-endpoint resolution.
  * @param timeout - The timeout for the message response in seconds. Defaults to 30.
  * @param sync - True if the message is synchronous.
@@ -250,7 +724,7 @@ async function sendMessage(
   destination: string,
   message: Model<any>,
   responseType?: any,
-  sender?: Identity | string,
+  sender?: Signer | string,
   resolver?: Resolver,
   timeout: number = DEFAULT_ENVELOPE_TIMEOUT_SECONDS,
   sync: boolean = false
@@ -274,7 +748,7 @@ async function sendMessage(
  * @param destination - The destination address to send the message to.
  * @param message - The message to be sent, encapsulated in a Model instance.
  * @param responseType - The optional type of the response message.
- * @param sender - The optional sender identity or user address.
+ * @param sender - The optional sender signer, e.g. its identity, or a user address.
  * @param resolver - The optional resolver for address-to-endpoint resolution.
  * @param timeout - The timeout for the message response in seconds. Defaults to 30.
  * @returns A promise that resolves to either a Model, MsgStatus, or Envelope.
@@ -283,7 +757,7 @@ async function sendSyncMessage(
   destination: string,
   message: Model<any>,
   responseType?: any,
-  sender?: Identity | string,
+  sender?: Signer | string,
   resolver?: Resolver,
   timeout: number = DEFAULT_ENVELOPE_TIMEOUT_SECONDS
 ): Promise<Model<any> | MsgStatus | Envelope> {
@@ -330,6 +804,8 @@ function encloseResponse(
  * @param sender - The sender's address.
  * @param session - The session identifier.
  * @param target - The target address. Defaults to an empty string.
+ * @param signer - The optional identity signing the response, usually the sending agent's.
+ * Use `encloseSignedResponseRaw` for other signers.
  * @returns The JSON representation of the response envelope.
  */
 function encloseResponseRaw(
@@ -337,23 +813,140 @@ function encloseResponseRaw(
   schemaDigest: string,
   sender: string,
   session: string,
-  target: string = ""
+  target: string = "",
+  signer?: Identity
 ): string {
+  const responseEnv = buildResponseEnvelope(jsonMessage, schemaDigest, sender, session, target, false);
+  if (signer) {
+    responseEnv.signWithIdentity(signer);
+  }
+  return JSON.stringify(responseEnv, null, 0);
+}
+
+/**
+ * Encloses a response message within an envelope signed by a signer.
+ *
+ * @param message - The response message to enclose, encapsulated in a Model instance.
+ * @param sender - The sender's address.
+ * @param session - The session identifier.
+ * @param target - The target address. Defaults to an empty string.
+ * @param signer - The optional signer of the response, usually the sending agent.
+ * @returns The JSON representation of the response envelope.
+ */
+async function encloseSignedResponse(
+  message: Model<any>,
+  sender: string,
+  session: string,
+  target: string = "",
+  signer?: Signer
+): Promise<string> {
+  return await encloseSignedResponseRaw(
+    message.dumpJson(message),
+    Model.buildSchemaDigest(message),
+    sender,
+    session,
+    target,
+    signer
+  );
+}
+
+/**
+ * Encloses a raw response message within an envelope signed by a signer.
+ *
+ * @param jsonMessage - The JSON-formatted response message to enclose.
+ * @param schemaDigest - The schema digest of the message.
+ * @param sender - The sender's address.
+ * @param session - The session identifier.
+ * @param target - The target address. Defaults to an empty string.
+ * @param signer - The optional signer of the response, usually the sending agent.
+ * @param encrypt - True to encrypt the response for the target, an agent address.
+ * @returns The JSON representation of the response envelope.
+ */
+async function encloseSignedResponseRaw(
+  jsonMessage: string,
+  schemaDigest: string,
+  sender: string,
+  session: string,
+  target: string = "",
+  signer?: Signer,
+  encrypt: boolean = false
+): Promise<string> {
+  const responseEnv = await encloseResponseEnvelope(
+    jsonMessage,
+    schemaDigest,
+    sender,
+    session,
+    target,
+    signer,
+    encrypt
+  );
+  return JSON.stringify(responseEnv, null, 0);
+}
+
+/**
+ * Encloses a raw response message within an envelope, to be encoded in any
+ * wire format.
+ *
+ * @param jsonMessage - The JSON-formatted response message to enclose.
+ * @param schemaDigest - The schema digest of the message.
+ * @param sender - The sender's address.
+ * @param session - The session identifier.
+ * @param target - The target address. Defaults to an empty string.
+ * @param signer - The optional signer of the response, usually the sending agent.
+ * @param encrypt - True to encrypt the response for the target, an agent address.
+ * @returns The response envelope.
+ */
+async function encloseResponseEnvelope(
+  jsonMessage: string,
+  schemaDigest: string,
+  sender: string,
+  session: string,
+  target: string = "",
+  signer?: Signer,
+  encrypt: boolean = false
+): Promise<Envelope> {
+  const responseEnv = buildResponseEnvelope(jsonMessage, schemaDigest, sender, session, target, encrypt);
+  if (signer) {
+    await responseEnv.sign(signer);
+  }
+  return responseEnv;
+}
+
+function buildResponseEnvelope(
+  jsonMessage: string,
+  schemaDigest: string,
+  sender: string,
+  session: string,
+  target: string,
+  encrypt: boolean
+): Envelope {
   const responseEnv = new Envelope({
     version: 1,
     sender: sender,
     target: target,
     session: session,
     schemaDigest: schemaDigest,
+    nonce: generateNonce(),
   });
-
-  responseEnv.encodePayload(jsonMessage);
-  return JSON.stringify(responseEnv, null, 0); // Envelope doesn't have a toJSON method...
+  if (encrypt) {
+    responseEnv.encryptPayload(jsonMessage);
+  } else {
+    responseEnv.encodePayload(jsonMessage);
+  }
+  return responseEnv;
 }
 
 export {
+  DEFAULT_RETRY_POLICY,
+  Dispenser,
+  EndpointHealth,
+  Outbox,
+  sendExchangeEnvelope,
   sendMessage,
   sendSyncMessage,
   encloseResponse,
-  encloseResponseRaw
+  encloseResponseEnvelope,
+  encloseResponseRaw,
+  encloseSignedResponse,
+  encloseSignedResponseRaw
 };
@@ -21,20 +21,45 @@ export const ALMANAC_CONTRACT_VERSION = "2.3.0";
 export const AGENTVERSE_URL = "https://agentverse.ai";
 export const ALMANAC_API_URL = `${AGENTVERSE_URL}/v1/almanac`;
 export const ALMANAC_API_TIMEOUT_SECONDS = 1.0;
+export const RESOLVER_METADATA_TTL_SECONDS = 300;
+export const RESOLVER_METADATA_CACHE_SIZE = 1000;
 export const ALMANAC_API_MAX_RETRIES = 10;
 export const ALMANAC_REGISTRATION_WAIT = 100;
 export const MAILBOX_POLL_INTERVAL_SECONDS = 1.0;
+export const MAILBOX_MAX_DISPATCH_ATTEMPTS = 3;
 
 export const WALLET_MESSAGING_POLL_INTERVAL_SECONDS = 2.0;
+export const WALLET_MESSAGING_AUTH_URL = "https://auth-v2.prod.fetch-ai.com";
+export const WALLET_MESSAGING_SERVER_URL = "https://messaging-server.prod.fetch-ai.com/graphql";
 
 export const RESPONSE_TIME_HINT_SECONDS = 5;
 export const DEFAULT_ENVELOPE_TIMEOUT_SECONDS = 30;
 export const DEFAULT_MAX_ENDPOINTS = 10;
 export const DEFAULT_SEARCH_LIMIT = 100;
+export const DEFAULT_SHUTDOWN_TIMEOUT_SECONDS = 10;
+export const DEFAULT_DELIVERY_MAX_ATTEMPTS = 3;
+export const DEFAULT_DELIVERY_BACKOFF_SECONDS = 0.5;
+export const DEFAULT_DELIVERY_MAX_BACKOFF_SECONDS = 10;
+export const DEFAULT_DELIVERY_JITTER = 0.5;
+export const ENDPOINT_FAILURE_THRESHOLD = 3;
+export const ENDPOINT_COOLDOWN_SECONDS = 60;
+export const OUTBOX_RETRY_INTERVAL_SECONDS = 60;
+export const OUTBOX_MAX_AGE_SECONDS = 24 * 60 * 60;
+export const STORAGE_WRITE_DELAY_SECONDS = 0.1;
+export const STORAGE_EXPIRY_INTERVAL_SECONDS = 60;
+export const PASSPHRASE_ENV_VAR = "UAGENTS_PASSPHRASE";
+export const KEY_ROTATION_GRACE_PERIOD_SECONDS = 7 * 24 * 60 * 60;
+export const REPLAY_CACHE_MAX_ENTRIES = 10000;
+export const ENVELOPE_COMPRESSION_THRESHOLD_BYTES = 1024;
+export const MAX_ENVELOPE_SIZE_BYTES = 10 * 1024 * 1024;
 
+export const TESTNET_CHAIN_ID = "dorado-1";
+export const MAINNET_CHAIN_ID = "fetchhub-4";
 export const TESTNET_RPC = "https://rpc-dorado.fetch.ai";
 export const MAINNET_RPC = "https://rpc-fetchhub.fetch.ai";
 export const TESTNET_FAUCET = "https://faucet-dorado.fetch.ai";
+export const TESTNET_GAS_PRICE = "1000000000atestfet";
+export const MAINNET_GAS_PRICE = "1000000000afet";
 
 export function parseEndpointConfig(endpoint: string | string[] | { [key: string]: any } | null): AgentEndpoint[] {
   let endpoints: AgentEndpoint[] = [];
@@ -53,7 +78,20 @@ export function parseEndpointConfig(endpoint: string | string[] | { [key: string
   return endpoints;
 }
 
-export function parseAgentverseConfig(config: string | { [key: string]: any } | null = null) {
+/**
+ * The Agentverse connection settings of an agent.
+ */
+export type AgentverseConfig = {
+  agentMailboxKey: string | null;
+  baseUrl: string;
+  protocol: string;
+  httpPrefix: string;
+  useMailbox: boolean;
+};
+
+export function parseAgentverseConfig(
+  config: string | { [key: string]: any } | null = null
+): AgentverseConfig {
   let agentMailboxKey: string | null = null;
   let baseUrl = AGENTVERSE_URL;
   let protocol: string | null = null;
@@ -1,14 +1,14 @@
-import { Logger, LogLevel, log } from './utils';
+import { Future, Logger, LogLevel, log } from './utils';
 import { Model } from './model';
-import { KeyValueStore } from './Storage';
-import { SigningStargateClient } from "@cosmjs/stargate";
+import { ContextStorage } from './Storage';
+import { SigningCosmWasmClient } from "@cosmjs/cosmwasm-stargate";
 import { v4 as uuidv4 } from 'uuid';
 import {
   DeliveryStatus,
   MsgStatus,
   MsgDigest,
 } from './types';
-import { Envelope } from './Envelope';
+import { Envelope, generateNonce, supportsPayloadEncryption } from './Envelope';
 import { dispatcher } from './Dispatch';
 import {
   ALMANAC_API_URL,
@@ -18,13 +18,14 @@ import {
 import { Resolver } from './Resolver';
 import { Protocol } from './Protocol';
 import { z } from 'zod';
-import { Identity } from './crypto';
+import { Signer, isUserAddress } from './crypto';
+import { WalletMessagingClient } from './Wallet';
 
 export interface Dispenser {
   addEnvelope: (
     envelope: Envelope,
     endpoints: string[],
-    responseFuture: Promise<any>,
+    responseFuture: Future<MsgStatus | Envelope>,
     sync?: boolean
   ) => void;
 }
@@ -38,10 +39,10 @@ export type ErrorMessageType = z.infer<typeof ErrorMessage>;
 
 const ERROR_MESSAGE_DIGEST = Model.buildSchemaDigest(ErrorMessage);
 
-// Agent representation interface
-export interface AgentRepresentation {
-  address: string;
-  signDigest: (digest: Buffer) => string;
+// Agent representation: the agent address and the signer acting on its behalf
+export interface AgentRepresentation extends Signer {
+  // Whether envelopes sent to other agents carry encrypted payloads
+  encryptPayloads?: boolean;
 }
 
 // Add these helper functions at the top of the file
@@ -85,12 +86,12 @@ export abstract class Context {
   /**
    * Get the key-value store associated with the context.
    */
-  abstract get storage(): KeyValueStore;
+  abstract get storage(): ContextStorage;
 
   /**
    * Get the ledger client associated with the context.
    */
-  abstract get ledger(): SigningStargateClient;
+  abstract get ledger(): SigningCosmWasmClient;
 
   /**
    * Get the logger instance associated with the context.
@@ -164,7 +165,7 @@ export abstract class Context {
     sync?: boolean,
     timeout?: number,
     protocolDigest?: string,
-    queries?: Map<string, Promise<any>>
+    queries?: Map<string, Future<[string, string]>>
   ): Promise<MsgStatus>;
 
   /**
@@ -186,25 +187,25 @@ export abstract class Context {
  */
 export class InternalContext extends Context {
   protected _agent: AgentRepresentation;
-  protected _storage: KeyValueStore;
-  protected _ledger: SigningStargateClient;
+  protected _storage: ContextStorage;
+  protected _ledger?: SigningCosmWasmClient;
   protected _resolver: Resolver;
   protected _dispenser: Dispenser; // Need to define Dispenser interface
   protected _logger?: Logger;
   protected _session: string;
   protected _intervalMessages?: Set<string>;
-  protected _walletMessagingClient?: any; // TODO: Define proper type
+  protected _walletMessagingClient?: WalletMessagingClient;
   protected _outboundMessages: Map<string, [string, string]> = new Map();
 
   constructor(
     agent: AgentRepresentation,
-    storage: KeyValueStore,
-    ledger: SigningStargateClient,
+    storage: ContextStorage,
+    ledger: SigningCosmWasmClient | undefined,
     resolver: Resolver,
     dispenser: Dispenser,
     session?: string,
     intervalMessages?: Set<string>,
-    walletMessagingClient?: any,
+    walletMessagingClient?: WalletMessagingClient,
     logger?: Logger,
   ) {
     super();
@@ -223,11 +224,14 @@ export class InternalContext extends Context {
     return this._agent;
   }
 
-  get storage(): KeyValueStore {
+  get storage(): ContextStorage {
     return this._storage;
   }
 
-  get ledger(): SigningStargateClient {
+  get ledger(): SigningCosmWasmClient {
+    if (!this._ledger) {
+      throw new Error("No ledger client available");
+    }
     return this._ledger;
   }
 
@@ -379,7 +383,7 @@ export class InternalContext extends Context {
     sync: boolean = false,
     timeout: number = DEFAULT_ENVELOPE_TIMEOUT_SECONDS,
     protocolDigest?: string,
-    queries?: Map<string, Promise<any>>
+    queries?: Map<string, Future<[string, string]>>
   ): Promise<MsgStatus> {
     // Extract address from destination agent identifier if present
     const [, , parsedAddress] = parseIdentifier(destination);
@@ -407,7 +411,7 @@ export class InternalContext extends Context {
       if (queries?.has(parsedAddress)) {
         const query = queries.get(parsedAddress)!;
         queries.delete(parsedAddress);
-        await query;
+        query.setResult([messageBody, messageSchemaDigest]);
         return {
           status: DeliveryStatus.DELIVERED,
           detail: "Sync message resolved",
@@ -445,21 +449,33 @@ export class InternalContext extends Context {
       session: this._session,
       schemaDigest: messageSchemaDigest,
       protocolDigest,
-      expires
+      expires,
+      nonce: generateNonce()
     });
 
-    env.encodePayload(messageBody);
-    env.sign({ signDigest: this.agent.signDigest } as Identity);
+    if (this.agent.encryptPayloads && !isUserAddress(destinationAddress)) {
+      if (supportsPayloadEncryption(await this._resolver.metadata(destinationAddress))) {
+        env.encryptPayload(messageBody);
+      } else {
+        log(`${destinationAddress} does not advertise encrypted payloads, sending in plaintext`, this.logger);
+        env.encodePayload(messageBody);
+      }
+    } else {
+      env.encodePayload(messageBody);
+    }
+    await env.sign(this.agent);
 
     // Create awaitable future for MsgStatus and sync response
-    const responseFuture = new Promise((resolve, reject) => {
-      setTimeout(() => reject(new Error("Timeout")), timeout * 1000);
-    });
+    const responseFuture = new Future<MsgStatus | Envelope>();
+    const timer = setTimeout(
+      () => responseFuture.setException(new Error("Timeout")),
+      timeout * 1000
+    );
 
     this._queueEnvelope(env, endpoints, responseFuture, sync);
 
     try {
-      const result = await responseFuture;
+      const result = await responseFuture.promise;
       if (result instanceof Envelope) {
         return {
           status: DeliveryStatus.DELIVERED,
@@ -469,16 +485,20 @@ export class InternalContext extends Context {
           session: this._session
         };
       }
-      return result as MsgStatus;
+      return result;
     } catch (error) {
-      log("Timeout waiting for dispense response", this.logger);
+      log(`Failed to dispense envelope: ${error}`, this.logger);
       return {
         status: DeliveryStatus.FAILED,
-        detail: "Timeout waiting for response",
+        detail: error instanceof Error && error.message === "Timeout"
+          ? "Timeout waiting for response"
+          : `Failed to send envelope: ${error}`,
         destination,
         endpoint: "",
         session: this._session
       };
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -488,7 +508,7 @@ export class InternalContext extends Context {
   protected _queueEnvelope(
     envelope: Envelope,
     endpoints: string[],
-    responseFuture: Promise<any>,
+    responseFuture: Future<MsgStatus | Envelope>,
     sync: boolean = false
   ): void {
     this._dispenser.addEnvelope(envelope, endpoints, responseFuture, sync);
@@ -514,24 +534,24 @@ export class InternalContext extends Context {
  * Represents the reactive context in which messages are handled and processed.
  */
 export class ExternalContext extends InternalContext {
-  private _queries: Map<string, Promise<any>>;
-  private _replies?: Map<string, Map<string, typeof Model>>;
+  private _queries: Map<string, Future<[string, string]>>;
+  private _replies?: Map<string, Map<string, Model<any>>>;
   private _messageReceived: MsgDigest;
   private _protocol: [string, Protocol | null];
 
   constructor(
     messageReceived: MsgDigest,
     agent: AgentRepresentation,
-    storage: KeyValueStore,
-    ledger: SigningStargateClient,
+    storage: ContextStorage,
+    ledger: SigningCosmWasmClient | undefined,
     resolver: Resolver,
     dispenser: Dispenser,
-    queries?: Map<string, Promise<any>>,
-    replies?: Map<string, Map<string, typeof Model>>,
+    queries?: Map<string, Future<[string, string]>>,
+    replies?: Map<string, Map<string, Model<any>>>,
     protocol?: [string, Protocol],
     session?: string,
     intervalMessages?: Set<string>,
-    walletMessagingClient?: any,
+    walletMessagingClient?: WalletMessagingClient,
     logger?: Logger,
   ) {
     super(
@@ -563,7 +583,7 @@ export class ExternalContext extends InternalContext {
       throw new Error("No message received");
     }
 
-    if (!this._replies) {
+    if (!this._replies || this._replies.size === 0) {
       return true;
     }
 
@@ -607,9 +627,31 @@ export class ExternalContext extends InternalContext {
       schemaDigest,
       JSON.stringify(message.dump({})),
       sync,
+      timeout
+    );
+  }
+
+  /**
+   * Send a message where the message body and schema digest are sent separately.
+   * Replies to pending sync queries are resolved with this message.
+   */
+  async sendRaw(
+    destination: string,
+    messageSchemaDigest: string,
+    messageBody: string,
+    sync: boolean = false,
+    timeout: number = DEFAULT_ENVELOPE_TIMEOUT_SECONDS,
+    protocolDigest?: string,
+    queries?: Map<string, Future<[string, string]>>
+  ): Promise<MsgStatus> {
+    return super.sendRaw(
+      destination,
+      messageSchemaDigest,
+      messageBody,
+      sync,
       timeout,
-      this._protocol[0],
-      this._queries
+      protocolDigest ?? this._protocol[0],
+      queries ?? this._queries
     );
   }
 }
@@ -1,10 +1,10 @@
-import { Model } from './model';
-import { RestMethod } from './types';
+import type { Envelope } from './Envelope';
+import { RestMethod, RestReturnType } from './types';
 
 /**
  * Abstract base class for sinks that handle messages.
  */
-abstract class Sink {
+export abstract class Sink {
   abstract handleMessage(
     sender: string,
     schemaDigest: string,
@@ -15,14 +15,26 @@ abstract class Sink {
   abstract handleRest(
     method: RestMethod,
     endpoint: string,
-    message: Model<any> | null
-  ): Promise<void>;
+    message: any | null
+  ): Promise<RestReturnType | null>;
+
+  /**
+   * Decrypt the payload of an envelope encrypted for one of the addresses of
+   * the sink. Sinks without it cannot receive encrypted payloads.
+   */
+  decryptPayload?(envelope: Envelope): Promise<string>;
+
+  /**
+   * Check that an envelope for one of the addresses of the sink is not a
+   * replay. Sinks without it accept every envelope.
+   */
+  checkReplay?(envelope: Envelope): void;
 }
 
 /**
  * Dispatches incoming messages to internal sinks.
  */
-class Dispatcher {
+export class Dispatcher {
   private _sinks: Map<string, Set<Sink>> = new Map();
 
   get sinks(): Map<string, Set<Sink>> {
@@ -52,6 +64,35 @@ class Dispatcher {
     return this._sinks.has(address);
   }
 
+  /**
+   * Decode the payload of an envelope for one of the sinks, decrypting it
+   * with a sink of the target if it is encrypted.
+   *
+   * @throws Error if no sink of the target can decrypt the payload.
+   */
+  async decodePayload(envelope: Envelope): Promise<string> {
+    if (!envelope.encryption) {
+      return envelope.decodePayload();
+    }
+    for (const handler of this._sinks.get(envelope.target) ?? []) {
+      if (handler.decryptPayload) {
+        return await handler.decryptPayload(envelope);
+      }
+    }
+    throw new Error(`Unable to decrypt the payload for ${envelope.target}`);
+  }
+
+  /**
+   * Check that an envelope is not a replay for any of the sinks of its target.
+   *
+   * @throws ReplayError if the envelope is expired or was already received.
+   */
+  checkReplay(envelope: Envelope): void {
+    for (const handler of this._sinks.get(envelope.target) ?? []) {
+      handler.checkReplay?.(envelope);
+    }
+  }
+
   async dispatchMsg(
     sender: string,
     destination: string,
@@ -69,12 +110,13 @@ class Dispatcher {
     destination: string,
     method: RestMethod,
     endpoint: string,
-    message: Model<any> | null
-  ): Promise<Model<any> | void> {
+    message: any | null
+  ): Promise<RestReturnType | null> {
     const handlers = this._sinks.get(destination) || new Set();
     for (const handler of handlers) {
       return await handler.handleRest(method, endpoint, message);
     }
+    return null;
   }
 }
 
@@ -0,0 +1,166 @@
+import { Encoder, Tag } from "cbor-x";
+import { brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync } from "zlib";
+
+import { ENVELOPE_COMPRESSION_THRESHOLD_BYTES, MAX_ENVELOPE_SIZE_BYTES } from "./Config";
+import { Envelope } from "./Envelope";
+
+export const JSON_CONTENT_TYPE = "application/json";
+export const CBOR_CONTENT_TYPE = "application/cbor";
+
+export type EnvelopeEncoding = "json" | "cbor";
+export type EnvelopeCompression = "gzip" | "br";
+
+/**
+ * The wire format of envelopes sent over HTTP.
+ *
+ * JSON with a base64 payload is understood by every agent, including the Python
+ * ones. CBOR carries the payload as raw bytes and is smaller, but only agents
+ * supporting it can receive it. The format is signalled with the `content-type`
+ * and `content-encoding` headers, and sync responses are sent in the format of
+ * their request.
+ *
+ * @prop {EnvelopeEncoding} encoding The encoding of envelopes. Defaults to JSON.
+ * @prop {EnvelopeCompression} compression The compression of encoded envelopes. Defaults to none.
+ * @prop {number} compressionThreshold The size in bytes from which encoded envelopes are compressed. Defaults to 1024.
+ */
+export type WireFormat = {
+  encoding?: EnvelopeEncoding;
+  compression?: EnvelopeCompression;
+  compressionThreshold?: number;
+};
+
+/**
+ * An envelope encoded for the wire, with the headers describing its format.
+ */
+export type EncodedEnvelope = {
+  body: Buffer;
+  headers: { [key: string]: string };
+};
+
+/**
+ * Raised when an envelope is larger than accepted, once decompressed.
+ */
+export class EnvelopeTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EnvelopeTooLargeError";
+  }
+}
+
+const CONTENT_TYPES: Record<EnvelopeEncoding, string> = {
+  json: JSON_CONTENT_TYPE,
+  cbor: CBOR_CONTENT_TYPE,
+};
+
+/**
+ * Parse the wire format of a request or response from its headers.
+ *
+ * @param contentType - The `content-type` header. Defaults to JSON when absent.
+ * @param contentEncoding - The `content-encoding` header. Defaults to no compression.
+ * @returns The wire format.
+ * @throws Error if the content type or encoding is not supported.
+ */
+export function parseWireFormat(contentType?: string, contentEncoding?: string): WireFormat {
+  const mediaType = (contentType ?? JSON_CONTENT_TYPE).split(";")[0]!.trim().toLowerCase();
+  const encoding = (Object.keys(CONTENT_TYPES) as EnvelopeEncoding[])
+    .find((key) => CONTENT_TYPES[key] === mediaType);
+  if (!encoding) {
+    throw new Error(`Unsupported content type ${contentType}`);
+  }
+
+  const compression = (contentEncoding || "identity").trim().toLowerCase();
+  if (compression === "identity") {
+    return { encoding };
+  }
+  if (compression !== "gzip" && compression !== "br") {
+    throw new Error(`Unsupported content encoding ${contentEncoding}`);
+  }
+  return { encoding, compression };
+}
+
+/**
+ * Encode an envelope for the wire.
+ *
+ * @param envelope - The envelope.
+ * @param format - The wire format. Defaults to uncompressed JSON.
+ * @returns The encoded envelope and its `content-type` and `content-encoding` headers.
+ */
+export function encodeEnvelope(envelope: Envelope, format: WireFormat = {}): EncodedEnvelope {
+  const encoding = format.encoding ?? "json";
+  let body = encoding === "cbor"
+    ? cbor.encode(toCbor(envelope))
+    : Buffer.from(JSON.stringify(envelope));
+  const headers: { [key: string]: string } = { "content-type": CONTENT_TYPES[encoding] };
+
+  const threshold = format.compressionThreshold ?? ENVELOPE_COMPRESSION_THRESHOLD_BYTES;
+  if (format.compression && body.length >= threshold) {
+    body = format.compression === "br" ? brotliCompressSync(body) : gzipSync(body);
+    headers["content-encoding"] = format.compression;
+  }
+  return { body, headers };
+}
+
+/**
+ * Decode an envelope received from the wire.
+ *
+ * @param body - The received body.
+ * @param format - The wire format of the body, see `parseWireFormat`.
+ * @param maxSize - The maximum size of the decompressed body, in bytes. Defaults to 10 MiB.
+ * @returns The envelope, whose signature is not verified yet.
+ * @throws EnvelopeTooLargeError if the body decompresses to more than `maxSize` bytes.
+ * @throws Error if the body cannot be decompressed or is not a valid envelope.
+ */
+export function decodeEnvelope(
+  body: Buffer,
+  format: WireFormat = {},
+  maxSize: number = MAX_ENVELOPE_SIZE_BYTES
+): Envelope {
+  try {
+    if (format.compression === "br") {
+      body = brotliDecompressSync(body, { maxOutputLength: maxSize });
+    } else if (format.compression === "gzip") {
+      body = gunzipSync(body, { maxOutputLength: maxSize });
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new EnvelopeTooLargeError(`Envelope exceeds ${maxSize} bytes once decompressed`);
+    }
+    throw error;
+  }
+  if (format.encoding === "cbor") {
+    return fromCbor(cbor.decode(body));
+  }
+  return Envelope.modelValidate(JSON.parse(body.toString("utf-8")));
+}
+
+/**
+ * The CBOR codec (RFC 8949) of envelopes: maps are plain objects with text
+ * keys and byte strings carry no typed array tags, so that envelopes are
+ * understood by any CBOR implementation.
+ */
+const cbor = new Encoder({
+  useRecords: false,
+  mapsAsObjects: true,
+  variableMapSize: true,
+  tagUint8Array: false,
+});
+
+function toCbor(envelope: Envelope): Record<string, unknown> {
+  const { payload, ...fields } = envelope.toJSON();
+  return { ...fields, payload: payload === null ? null : Buffer.from(payload, "base64") };
+}
+
+function fromCbor(value: unknown): Envelope {
+  if (value === null || typeof value !== "object" || Array.isArray(value) || value instanceof Uint8Array
+    || value instanceof Tag) {
+    throw new Error("CBOR envelope is not a map");
+  }
+  const { payload, ...fields } = value as Record<string, unknown>;
+  if (payload !== null && payload !== undefined && !(payload instanceof Uint8Array)) {
+    throw new Error("CBOR envelope payload is not a byte string");
+  }
+  return Envelope.modelValidate({
+    ...fields,
+    payload: payload ? Buffer.from(payload).toString("base64") : null,
+  });
+}
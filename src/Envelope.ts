@@ -1,6 +1,41 @@
-import { Identity } from './crypto';
+import { randomInt } from 'crypto';
+import { REPLAY_CACHE_MAX_ENTRIES } from './Config';
+import { Identity, Signer, decryptWithSigner, encryptForAddress } from './crypto';
 import { sha256 } from 'js-sha256';
 import { z } from 'zod';
+import { INTERNAL_KEY_PREFIX, StorageAPI } from './Storage';
+
+const REPLAY_CACHE_KEY_PREFIX = `${INTERNAL_KEY_PREFIX}replay/`;
+
+/**
+ * The `encryption` of envelopes whose payload is encrypted for the target with
+ * an ephemeral secp256k1 ECDH key and AES-256-GCM.
+ */
+export const PAYLOAD_ENCRYPTION = 'ecdh-secp256k1-aes-256-gcm';
+
+/**
+ * The version of envelopes with an encrypted payload. Agents only supporting
+ * version 1 envelopes, such as the Python agents, cannot read their payload.
+ */
+export const ENCRYPTED_ENVELOPE_VERSION = 2;
+
+/**
+ * The registration metadata key under which agents advertise the payload
+ * encryption schemes they accept, as a comma separated list.
+ */
+export const ENCRYPTION_METADATA_KEY = 'encryption';
+
+/**
+ * Check whether an agent advertises support for encrypted payloads in its
+ * registration metadata.
+ *
+ * @param metadata The registration metadata of the agent, if known.
+ * @returns True if the agent accepts payloads encrypted with `PAYLOAD_ENCRYPTION`.
+ */
+export function supportsPayloadEncryption(metadata: Record<string, string> | null | undefined): boolean {
+  const schemes = metadata?.[ENCRYPTION_METADATA_KEY];
+  return typeof schemes === 'string' && schemes.split(',').map((scheme) => scheme.trim()).includes(PAYLOAD_ENCRYPTION);
+}
 
 /**
  * Represents an envelope for message communication between agents.
@@ -16,6 +51,7 @@ import { z } from 'zod';
  *     expires (number?): The expiration timestamp (optional).
  *     nonce (number?): The nonce value (optional).
  *     signature (string?): The envelope signature (optional).
+ *     encryption (string?): The scheme the payload is encrypted with, if it is encrypted (optional).
  */
 export class Envelope {
   version: number;
@@ -28,6 +64,7 @@ export class Envelope {
   expires?: number;
   nonce?: number;
   signature?: string;
+  encryption?: string;
 
   constructor({
     version,
@@ -40,6 +77,7 @@ export class Envelope {
     expires,
     nonce,
     signature,
+    encryption,
   }: {
     version: number;
     sender: string;
@@ -51,6 +89,7 @@ export class Envelope {
     expires?: number;
     nonce?: number;
     signature?: string;
+    encryption?: string;
   }) {
     this.version = version;
     this.sender = sender;
@@ -62,6 +101,7 @@ export class Envelope {
     this.expires = expires;
     this.nonce = nonce;
     this.signature = signature;
+    this.encryption = encryption;
   }
 
   /**
@@ -71,14 +111,34 @@ export class Envelope {
    */
   encodePayload(value: string): void {
     this.payload = Buffer.from(value).toString('base64');
+    this.encryption = undefined;
+  }
+
+  /**
+   * Encrypt the payload value for the target and store it in the envelope.
+   * Only the target can decrypt it, and the sender, target and session are
+   * authenticated along with it. The envelope is flagged with the
+   * `ENCRYPTED_ENVELOPE_VERSION`.
+   * 
+   * @param value The payload value to be encrypted.
+   * @throws Error if the target is not an agent address.
+   */
+  encryptPayload(value: string): void {
+    this.payload = encryptForAddress(this.target, Buffer.from(value), this._associatedData()).toString('base64');
+    this.encryption = PAYLOAD_ENCRYPTION;
+    this.version = Math.max(this.version, ENCRYPTED_ENVELOPE_VERSION);
   }
 
   /**
    * Decode and retrieve the payload value from the envelope.
    * 
    * @returns The decoded payload value, or '' if payload is not present.
+   * @throws Error if the payload is encrypted.
    */
   decodePayload(): string {
+    if (this.encryption) {
+      throw new Error('Envelope payload is encrypted');
+    }
     if (!this.payload) {
       return '';
     }
@@ -86,14 +146,54 @@ export class Envelope {
   }
 
   /**
-   * Sign the envelope using the provided signing function.
+   * Decrypt and retrieve the payload value from the envelope. Payloads that
+   * are not encrypted are decoded.
+   * 
+   * @param signer The signer of the target address, able to derive shared secrets.
+   * @returns The decrypted payload value, or '' if payload is not present.
+   * @throws Error if the encryption scheme or envelope version is unsupported, or the signer cannot decrypt.
+   * @throws DecryptionError if the payload was not encrypted for the signer or was tampered with.
+   */
+  async decryptPayload(signer: Signer): Promise<string> {
+    if (!this.encryption) {
+      return this.decodePayload();
+    }
+    if (this.encryption !== PAYLOAD_ENCRYPTION) {
+      throw new Error(`Unsupported payload encryption: ${this.encryption}`);
+    }
+    if (this.version < ENCRYPTED_ENVELOPE_VERSION) {
+      throw new Error(`Encrypted payloads require envelope version ${ENCRYPTED_ENVELOPE_VERSION}`);
+    }
+    if (!this.payload) {
+      return '';
+    }
+    const plaintext = await decryptWithSigner(signer, Buffer.from(this.payload, 'base64'), this._associatedData());
+    return plaintext.toString();
+  }
+
+  /**
+   * Sign the envelope using the provided signer.
    * 
-   * @param identity The identity used for signing.
+   * @param signer The signer of the sender address, e.g. its identity.
+   * @throws Error if signing fails
+   */
+  async sign(signer: Signer): Promise<void> {
+    try {
+      this.signature = await signer.signDigest(this._digest());
+    } catch (err) {
+      throw new Error(`Failed to sign envelope: ${err}`);
+    }
+  }
+
+  /**
+   * Sign the envelope synchronously with an identity held in memory.
+   *
+   * @param identity The identity of the sender address.
    * @throws Error if signing fails
    */
-  sign(identity: Identity): void {
+  signWithIdentity(identity: Identity): void {
     try {
-      this.signature = identity.signDigest(this._digest());
+      this.signature = identity.sign(this._digest());
     } catch (err) {
       throw new Error(`Failed to sign envelope: ${err}`);
     }
@@ -110,15 +210,13 @@ export class Envelope {
       throw new Error('Envelope signature is missing');
     }
 
-    console.log('Digest', this._digest().toString('hex'));
-
     Identity.verifyDigest(this.sender, this._digest(), this.signature);
   }
 
   /**
-   * Convert the envelope to JSON for sending
+   * Convert the envelope to its JSON wire representation, used by JSON.stringify
    */
-  toJSON(): string {
+  toJSON(): Record<string, any> {
     const obj = {
       version: this.version,
       sender: this.sender,
@@ -130,9 +228,10 @@ export class Envelope {
       expires: this.expires ?? null,
       nonce: this.nonce ?? null,
       signature: this.signature ?? null,
+      ...(this.encryption && { encryption: this.encryption }),
     }
 
-    return JSON.stringify(obj);
+    return obj;
   }
 
   /**
@@ -162,10 +261,18 @@ export class Envelope {
       nonceBuffer.writeBigUInt64BE(BigInt(this.nonce));
       hasher.update(nonceBuffer);
     }
+
+    if (this.encryption) {
+      hasher.update(this.encryption);
+    }
     
     return Buffer.from(hasher.digest());
   }
 
+  private _associatedData(): Buffer {
+    return Buffer.from(this.sender + this.target + this.session);
+  }
+
   /**
    * Validate the envelope data against the Envelope schema.
    * 
@@ -184,6 +291,7 @@ export class Envelope {
       expires: z.number().nullish(),
       nonce: z.number().nullish(),
       signature: z.string().nullish(),
+      encryption: z.string().nullish(),
     });
     const parsedData = EnvelopeSchema.parse(data);
 
@@ -198,10 +306,133 @@ export class Envelope {
       expires: parsedData.expires ?? undefined,
       nonce: parsedData.nonce ?? undefined,
       signature: parsedData.signature ?? undefined,
+      encryption: parsedData.encryption ?? undefined,
     });
   }
 }
 
+/**
+ * Generate a random envelope nonce, a 48 bit integer, so that receivers can
+ * tell envelopes of the same sender apart.
+ */
+export function generateNonce(): number {
+  return randomInt(2 ** 48 - 1);
+}
+
+/**
+ * Raised when an envelope is rejected as expired or already received.
+ *
+ * A duplicate envelope is usually a retry by a sender that did not get the
+ * response to an earlier delivery, so receivers acknowledge it without handling
+ * it again rather than reporting an error.
+ */
+export class ReplayError extends Error {
+  readonly duplicate: boolean;
+
+  constructor(message: string, duplicate: boolean = false) {
+    super(message);
+    this.name = 'ReplayError';
+    this.duplicate = duplicate;
+  }
+}
+
+/**
+ * The (sender, nonce) pairs of the envelopes received by an agent, used to
+ * reject replayed envelopes.
+ *
+ * The cache is kept in the agent storage so that it survives restarts, one
+ * internal key per pair so that every check only writes the pair it adds. Pairs
+ * are forgotten once their envelope has expired, since expired envelopes are
+ * rejected anyway, and the oldest pairs are evicted when the cache is full.
+ * Envelopes without a nonce cannot be told apart and are only checked for expiry.
+ */
+export class ReplayCache {
+  private _storage?: StorageAPI;
+  private _maxEntries: number;
+  private _entries: Map<string, number | null> | null = null;
+
+  /**
+   * Initialize a ReplayCache instance.
+   *
+   * @param storage The storage the cache is kept in. The cache is kept in memory only without it.
+   * @param maxEntries The maximum number of pairs kept.
+   */
+  constructor(storage?: StorageAPI, maxEntries: number = REPLAY_CACHE_MAX_ENTRIES) {
+    this._storage = storage;
+    this._maxEntries = maxEntries;
+  }
+
+  /**
+   * The number of pairs in the cache.
+   */
+  get size(): number {
+    return this._load().size;
+  }
+
+  /**
+   * Check that an envelope is neither expired nor already received, and
+   * remember it.
+   *
+   * @param envelope The received envelope, after its signature was verified.
+   * @throws ReplayError if the envelope is expired or was already received.
+   */
+  check(envelope: Envelope): void {
+    const now = Math.floor(Date.now() / 1000);
+    if (envelope.expires !== undefined && envelope.expires < now) {
+      throw new ReplayError(`Envelope from ${envelope.sender} expired`);
+    }
+    if (envelope.nonce === undefined) {
+      return;
+    }
+
+    const entries = this._load();
+    const key = `${envelope.sender}:${envelope.nonce}`;
+    if (entries.has(key)) {
+      throw new ReplayError(
+        `Envelope from ${envelope.sender} with nonce ${envelope.nonce} was already received`,
+        true
+      );
+    }
+    entries.set(key, envelope.expires ?? null);
+    this._storage?.set(REPLAY_CACHE_KEY_PREFIX + key, envelope.expires ?? null);
+    if (entries.size > this._maxEntries) {
+      this._evict(now);
+    }
+  }
+
+  private _evict(now: number): void {
+    const entries = this._load();
+    for (const [key, expires] of entries) {
+      if (expires !== null && expires < now) {
+        this._forget(key);
+      }
+    }
+    for (const key of entries.keys()) {
+      if (entries.size <= this._maxEntries) {
+        break;
+      }
+      this._forget(key);
+    }
+  }
+
+  private _forget(key: string): void {
+    this._entries?.delete(key);
+    this._storage?.remove(REPLAY_CACHE_KEY_PREFIX + key);
+  }
+
+  private _load(): Map<string, number | null> {
+    if (!this._entries) {
+      // without insertion order across restarts, the pairs expiring first are evicted first
+      const stored: Array<[string, number | null]> = (this._storage?.keys() ?? [])
+        .filter((key) => key.startsWith(REPLAY_CACHE_KEY_PREFIX))
+        .map((key) => [key.slice(REPLAY_CACHE_KEY_PREFIX.length), this._storage!.get(key)]);
+      stored.sort(([, a], [, b]) => (a ?? Infinity) - (b ?? Infinity));
+      this._entries = new Map(stored);
+    }
+    return this._entries;
+  }
+}
+
 /**
  * Represents a historical entry of an envelope.
  */
@@ -245,7 +476,24 @@ export class EnvelopeHistoryEntry {
   }
 
   /**
-   * Creates an EnvelopeHistoryEntry from an Envelope instance
+   * Convert the entry to its JSON representation, used by JSON.stringify
+   */
+  toJSON(): Record<string, any> {
+    return {
+      timestamp: this.timestamp,
+      version: this.version,
+      sender: this.sender,
+      target: this.target,
+      session: this.session,
+      schema_digest: this.schemaDigest,
+      protocol_digest: this.protocolDigest ?? null,
+      payload: this.payload ?? null,
+    };
+  }
+
+  /**
+   * Creates an EnvelopeHistoryEntry from an Envelope instance. Encrypted
+   * payloads are not recorded.
    */
   static fromEnvelope(envelope: Envelope): EnvelopeHistoryEntry {
     return new EnvelopeHistoryEntry({
@@ -255,11 +503,20 @@ export class EnvelopeHistoryEntry {
       session: envelope.session,
       schemaDigest: envelope.schemaDigest,
       protocolDigest: envelope.protocolDigest,
-      payload: envelope.decodePayload()
+      payload: envelope.encryption ? undefined : envelope.decodePayload()
     });
   }
 }
 
+/**
+ * Filters used to select entries from an envelope history.
+ */
+export type EnvelopeHistoryFilter = {
+  sender?: string;
+  session?: string;
+  schemaDigest?: string;
+};
+
 /**
  * Manages a history of envelope entries with retention policy.
  */
@@ -285,4 +542,27 @@ export class EnvelopeHistory {
     const cutoffTime = Math.floor(Date.now() / 1000) - 86400;
     this.envelopes = this.envelopes.filter(e => e.timestamp >= cutoffTime);
   }
-}
\ No newline at end of file
+
+  /**
+   * Select the entries matching the filter, oldest first.
+   *
+   * @param filter The sender, session and schema digest to match.
+   * @param offset The number of matching entries to skip.
+   * @param limit The maximum number of entries to return.
+   * @returns The matching entries and the total number of matches.
+   */
+  query(
+    filter: EnvelopeHistoryFilter = {},
+    offset: number = 0,
+    limit?: number
+  ): { entries: EnvelopeHistoryEntry[]; total: number } {
+    this.applyRetentionPolicy();
+    const matches = this.envelopes.filter(e =>
+      (!filter.sender || e.sender === filter.sender) &&
+      (!filter.session || e.session === filter.session) &&
+      (!filter.schemaDigest || e.schemaDigest === filter.schemaDigest)
+    );
+    const end = limit === undefined ? undefined : offset + limit;
+    return { entries: matches.slice(offset, end), total: matches.length };
+  }
+}
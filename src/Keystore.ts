@@ -0,0 +1,269 @@
+import path from "path";
+
+import { KEY_ROTATION_GRACE_PERIOD_SECONDS } from "./Config";
+import { Identity } from "./crypto";
+import { defaultPassphrase, loadAllKeys, savePrivateKeys } from "./Storage";
+import { getLogger, LogLevel, log } from "./utils";
+import { LocalWallet } from "./Wallet";
+
+const logger = getLogger(LogLevel.INFO, "keystore");
+
+/**
+ * An identity key replaced by a key rotation, kept until the end of the grace
+ * period of the rotation.
+ *
+ * @prop {string} identity_key The hex encoded private key of the previous identity.
+ * @prop {string} mnemonic The mnemonic the previous keys were derived from, if any.
+ * @prop {number} expires The end of the grace period, in seconds since the epoch.
+ * @prop {string} moved_to The JSON moved-to record published for the previous address, if any.
+ */
+export type PreviousKeys = {
+  identity_key: string;
+  mnemonic?: string;
+  expires: number;
+  moved_to?: string;
+};
+
+/**
+ * The keys stored for a name, as written to the private keys file.
+ *
+ * @prop {string} identity_key The hex encoded private key of the identity.
+ * @prop {string} wallet_key The hex encoded private key of the ledger wallet.
+ * @prop {string} mnemonic The mnemonic both keys were derived from, if they were imported from one.
+ * @prop {PreviousKeys[]} previous The identity keys replaced by rotations whose grace period has not ended.
+ */
+export type StoredKeys = {
+  identity_key: string;
+  wallet_key: string;
+  mnemonic?: string;
+  previous?: PreviousKeys[];
+};
+
+/**
+ * An identity replaced by a key rotation, during the grace period of the rotation.
+ *
+ * @prop {Identity} identity The previous identity.
+ * @prop {number} expires The end of the grace period, in seconds since the epoch.
+ * @prop {string} movedTo The JSON moved-to record published for the previous address, if any.
+ */
+export type PreviousIdentity = {
+  identity: Identity;
+  expires: number;
+  movedTo?: string;
+};
+
+/**
+ * A named identity of the keystore.
+ *
+ * @prop {string} name The name of the identity.
+ * @prop {string} address The agent address of the identity.
+ * @prop {string} walletAddress The address of its ledger wallet.
+ */
+export type KeystoreEntry = {
+  name: string;
+  address: string;
+  walletAddress: string;
+};
+
+/**
+ * Named identities and their ledger wallets, kept in a private keys file.
+ *
+ * The keystore reads and writes the same `private_keys.json` file agents
+ * created with a name use, so an agent named after a keystore identity runs
+ * with its keys. With a passphrase the file is encrypted, as it is for agents.
+ */
+export class Keystore {
+  private _path: string;
+  private _passphrase: string | null;
+
+  /**
+   * Initialize a Keystore instance.
+   *
+   * @param directory - The directory of the private keys file. Defaults to the working directory.
+   * @param passphrase - The passphrase of the file. Defaults to the `UAGENTS_PASSPHRASE`
+   * environment variable; the file is not encrypted without one.
+   */
+  constructor(directory: string = process.cwd(), passphrase: string | null = defaultPassphrase()) {
+    this._path = path.join(directory, "private_keys.json");
+    this._passphrase = passphrase;
+  }
+
+  /**
+   * List the identities of the keystore.
+   */
+  list(): KeystoreEntry[] {
+    return Object.entries(this._load()).map(([name, keys]) => ({
+      name,
+      address: Identity.fromString(keys.identity_key).address,
+      walletAddress: new LocalWallet(keys.wallet_key).address(),
+    }));
+  }
+
+  has(name: string): boolean {
+    return name in this._load();
+  }
+
+  /**
+   * Get the identity stored under a name.
+   *
+   * @throws Error if there is no identity with this name.
+   */
+  get(name: string): Identity {
+    const keys = this._keys(name);
+    return keys.mnemonic
+      ? Identity.fromMnemonic(keys.mnemonic, 0)
+      : Identity.fromString(keys.identity_key);
+  }
+
+  /**
+   * Get the ledger wallet of the identity stored under a name.
+   *
+   * @throws Error if there is no identity with this name.
+   */
+  wallet(name: string): LocalWallet {
+    return new LocalWallet(this._keys(name).wallet_key);
+  }
+
+  /**
+   * Create a random identity and wallet under a new name.
+   *
+   * @throws Error if the name is already taken.
+   */
+  create(name: string): Identity {
+    return this._add(name, {
+      identity_key: Identity.generate().privateKey,
+      wallet_key: LocalWallet.generate().privateKey,
+    });
+  }
+
+  /**
+   * Import an identity under a new name, either from the hex encoded private
+   * key of an identity or from a BIP-39 mnemonic. Keys imported from a
+   * mnemonic are derived like those of an agent created with the mnemonic.
+   *
+   * @param name - The name of the identity.
+   * @param secret - The private key or mnemonic.
+   * @param walletKey - The hex encoded private key of the wallet, for identities
+   * imported from a private key. Defaults to a random key.
+   * @throws Error if the name is already taken or the mnemonic is malformed.
+   */
+  import(name: string, secret: string, walletKey?: string): Identity {
+    if (/\s/.test(secret.trim())) {
+      const identity = Identity.fromMnemonic(secret, 0);
+      return this._add(name, {
+        identity_key: identity.privateKey,
+        wallet_key: LocalWallet.fromMnemonic(secret).privateKey,
+        mnemonic: identity.toMnemonic(),
+      });
+    }
+    return this._add(name, {
+      identity_key: Identity.fromString(secret).privateKey,
+      wallet_key: walletKey ?? LocalWallet.generate().privateKey,
+    });
+  }
+
+  /**
+   * Export the keys stored under a name, to import them elsewhere.
+   *
+   * @throws Error if there is no identity with this name.
+   */
+  export(name: string): StoredKeys {
+    return { ...this._keys(name) };
+  }
+
+  /**
+   * Delete the identity stored under a name.
+   *
+   * @throws Error if there is no identity with this name.
+   */
+  delete(name: string): void {
+    const keys = this._load();
+    this._keys(name, keys);
+    delete keys[name];
+    savePrivateKeys(keys, this._passphrase, this._path);
+  }
+
+  /**
+   * Get the identities replaced by rotations of the identity stored under a
+   * name whose grace period has not ended, e.g. to keep receiving envelopes
+   * sent to their addresses.
+   *
+   * @throws Error if there is no identity with this name.
+   */
+  previous(name: string): PreviousIdentity[] {
+    return unexpired(this._keys(name).previous).map((previous) => ({
+      identity: previous.mnemonic
+        ? Identity.fromMnemonic(previous.mnemonic, 0)
+        : Identity.fromString(previous.identity_key),
+      expires: previous.expires,
+      movedTo: previous.moved_to,
+    }));
+  }
+
+  /**
+   * Replace the identity stored under a name, keeping its wallet. The previous
+   * identity key, and its mnemonic, are kept until the end of the grace period,
+   * while previous keys whose grace period has ended are discarded.
+   *
+   * @param name - The name of the identity.
+   * @param identity - The new identity. Defaults to a random identity.
+   * @param gracePeriodSeconds - How long the previous identity key is kept. Defaults to 7 days.
+   * @param movedTo - The JSON moved-to record published for the previous address.
+   * @returns The new identity.
+   * @throws Error if there is no identity with this name.
+   */
+  rotate(
+    name: string,
+    identity: Identity = Identity.generate(),
+    gracePeriodSeconds: number = KEY_ROTATION_GRACE_PERIOD_SECONDS,
+    movedTo?: string
+  ): Identity {
+    const keys = this._load();
+    const current = this._keys(name, keys);
+    const replaced: PreviousKeys = {
+      identity_key: current.identity_key,
+      expires: Math.floor(Date.now() / 1000) + gracePeriodSeconds,
+    };
+    if (current.mnemonic) {
+      replaced.mnemonic = current.mnemonic;
+    }
+    if (movedTo) {
+      replaced.moved_to = movedTo;
+    }
+    keys[name] = {
+      identity_key: identity.privateKey,
+      wallet_key: current.wallet_key,
+      previous: [...unexpired(current.previous), replaced],
+    };
+    savePrivateKeys(keys, this._passphrase, this._path);
+    log(`Rotated identity ${name} to ${identity.address}`, logger);
+    return identity;
+  }
+
+  private _add(name: string, stored: StoredKeys): Identity {
+    const keys = this._load();
+    if (name in keys) {
+      throw new Error(`Keystore already has an identity named ${name}`);
+    }
+    keys[name] = stored;
+    savePrivateKeys(keys, this._passphrase, this._path);
+    return this.get(name);
+  }
+
+  private _keys(name: string, keys: { [name: string]: StoredKeys } = this._load()): StoredKeys {
+    const stored = keys[name];
+    if (!stored) {
+      throw new Error(`Keystore has no identity named ${name}`);
+    }
+    return stored;
+  }
+
+  private _load(): { [name: string]: StoredKeys } {
+    return loadAllKeys(this._passphrase, this._path)[0];
+  }
+}
+
+function unexpired(previous: PreviousKeys[] = []): PreviousKeys[] {
+  const now = Date.now() / 1000;
+  return previous.filter((keys) => keys.expires > now);
+}
@@ -1 +1,259 @@
-export const mailbox = "tmp";
+import { sha256 } from "js-sha256";
+
+import { AgentverseConfig, MAILBOX_MAX_DISPATCH_ATTEMPTS, MAILBOX_POLL_INTERVAL_SECONDS } from "./Config";
+import { AgentRepresentation } from "./Context";
+import { isUserAddress } from "./crypto";
+import { dispatcher } from "./Dispatch";
+import { Envelope } from "./Envelope";
+import { Future, getLogger, Logger, LogLevel, log } from "./utils";
+
+/**
+ * An envelope stored in the mailbox, as returned by the Agentverse mailbox API.
+ */
+type StoredEnvelope = {
+  uuid: string;
+  envelope: unknown;
+};
+
+/**
+ * Client retrieving the envelopes stored for an agent in its Agentverse mailbox.
+ *
+ * The client authenticates by signing a challenge with the agent identity, then
+ * polls the mailbox for stored envelopes, dispatches them to the agent and
+ * deletes them from the mailbox once processed. Envelopes that fail to be
+ * dispatched are left in the mailbox and dispatched again on the next polls,
+ * until they are deleted after `maxAttempts` failures. Agents using a mailbox
+ * register the mailbox `endpoint` instead of their own.
+ */
+export class MailboxClient {
+  private _agent: AgentRepresentation;
+  private _config: AgentverseConfig;
+  private _logger: Logger;
+  private _pollInterval: number;
+  private _maxAttempts: number;
+  private _attempts: Map<string, number> = new Map();
+  private _accessToken: string | null = null;
+  private _running: boolean = false;
+  private _wakeup: Future<void> | null = null;
+
+  /**
+   * Initialize the mailbox client.
+   *
+   * @param agent - The agent whose mailbox to read.
+   * @param config - The Agentverse configuration of the agent.
+   * @param logger - The logger to use.
+   * @param pollInterval - The interval between mailbox polls, in seconds.
+   * @param maxAttempts - How many times an envelope is dispatched before it is deleted anyway.
+   */
+  constructor(
+    agent: AgentRepresentation,
+    config: AgentverseConfig,
+    logger?: Logger,
+    pollInterval: number = MAILBOX_POLL_INTERVAL_SECONDS,
+    maxAttempts: number = MAILBOX_MAX_DISPATCH_ATTEMPTS
+  ) {
+    this._agent = agent;
+    this._config = config;
+    this._logger = logger || getLogger(LogLevel.INFO, "mailbox");
+    this._pollInterval = pollInterval;
+    this._maxAttempts = maxAttempts;
+  }
+
+  /**
+   * The base URL of the Agentverse API.
+   */
+  get baseUrl(): string {
+    return `${this._config.httpPrefix}://${this._config.baseUrl}`;
+  }
+
+  /**
+   * The endpoint at which the mailbox receives envelopes for the agent.
+   */
+  get endpoint(): string {
+    return `${this.baseUrl}/v1/submit`;
+  }
+
+  /**
+   * Poll the mailbox until `stop()` is called.
+   */
+  async run(): Promise<void> {
+    if (this._running) {
+      return;
+    }
+    this._running = true;
+    while (this._running) {
+      await this.poll();
+      if (!this._running) {
+        break;
+      }
+      this._wakeup = new Future<void>();
+      const timer = setTimeout(() => this._wakeup?.setResult(), this._pollInterval * 1000);
+      await this._wakeup.promise;
+      clearTimeout(timer);
+      this._wakeup = null;
+    }
+  }
+
+  /**
+   * Stop polling the mailbox.
+   */
+  stop(): void {
+    this._running = false;
+    this._wakeup?.setResult();
+  }
+
+  /**
+   * Retrieve the stored envelopes once, dispatch them and delete them from the
+   * mailbox. Retrieves an access token first if needed.
+   */
+  async poll(): Promise<void> {
+    try {
+      if (this._accessToken === null) {
+        await this._getAccessToken();
+      }
+      const response = await fetch(`${this.baseUrl}/v1/mailbox`, {
+        headers: { Authorization: `Bearer ${this._accessToken}` },
+      });
+      if (response.status === 401) {
+        this._accessToken = null;
+        log("Access token expired: a new one will be retrieved", this._logger);
+        return;
+      }
+      if (!response.ok) {
+        log(`Failed to retrieve messages: ${response.status}: ${await response.text()}`, this._logger);
+        return;
+      }
+      const { items } = await response.json() as { items: StoredEnvelope[] };
+      for (const item of items) {
+        await this._processItem(item);
+      }
+    } catch (error) {
+      log(`Failed to check mailbox: ${error}`, this._logger);
+    }
+  }
+
+  /**
+   * Dispatch a stored envelope and delete it, unless dispatching failed and it
+   * has attempts left. Failures are logged, so that the other envelopes of the
+   * batch are still processed.
+   */
+  private async _processItem(item: StoredEnvelope): Promise<void> {
+    const previousAttempts = this._attempts.get(item.uuid) ?? 0;
+    try {
+      await this._handleEnvelope(item, previousAttempts > 0);
+    } catch (error) {
+      const attempts = previousAttempts + 1;
+      if (attempts < this._maxAttempts) {
+        this._attempts.set(item.uuid, attempts);
+        log(`Failed to dispatch envelope ${item.uuid} (attempt ${attempts}), retrying: ${error}`, this._logger);
+        return;
+      }
+      log(`Failed to dispatch envelope ${item.uuid} ${attempts} times, deleting it: ${error}`, this._logger);
+    }
+    this._attempts.delete(item.uuid);
+    try {
+      await this._deleteEnvelope(item.uuid);
+    } catch (error) {
+      log(`Failed to delete envelope ${item.uuid}: ${error}`, this._logger);
+    }
+  }
+
+  /**
+   * Validate a stored envelope and dispatch it to the agent.
+   *
+   * @param item - The stored envelope.
+   * @param retry - Whether the envelope failed to be dispatched before, in which
+   * case it is not rejected as a replay of itself.
+   * @throws Error if dispatching the envelope fails.
+   */
+  private async _handleEnvelope(item: StoredEnvelope, retry: boolean): Promise<void> {
+    let env: Envelope;
+    try {
+      env = Envelope.modelValidate(item.envelope);
+    } catch (error) {
+      log(`Received invalid envelope ${item.uuid}: ${error}`, this._logger);
+      return;
+    }
+
+    if (env.expires !== undefined && env.expires < Math.floor(Date.now() / 1000)) {
+      log(`Received expired envelope from ${env.sender}`, this._logger);
+      return;
+    }
+    if (!isUserAddress(env.sender) || env.signature) {
+      try {
+        env.verify();
+      } catch (error) {
+        log(`Received envelope that failed verification: ${error}`, this._logger);
+        return;
+      }
+    }
+    if (!dispatcher.contains(env.target)) {
+      log(`Received envelope for unknown destination ${env.target}`, this._logger);
+      return;
+    }
+    if (!retry) {
+      try {
+        dispatcher.checkReplay(env);
+      } catch (error) {
+        log(`Received replayed envelope: ${error}`, this._logger);
+        return;
+      }
+    }
+
+    let payload: string;
+    try {
+      payload = await dispatcher.decodePayload(env);
+    } catch (error) {
+      log(`Received envelope that failed decryption: ${error}`, this._logger);
+      return;
+    }
+
+    await dispatcher.dispatchMsg(
+      env.sender,
+      env.target,
+      env.schemaDigest,
+      payload,
+      env.session
+    );
+  }
+
+  private async _deleteEnvelope(uuid: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/v1/mailbox/${uuid}`, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${this._accessToken}` },
+    });
+    if (!response.ok) {
+      log(`Failed to delete envelope ${uuid}: ${response.status}`, this._logger);
+    }
+  }
+
+  private async _getAccessToken(): Promise<void> {
+    const headers = { "content-type": "application/json" };
+    const challengeResponse = await fetch(`${this.baseUrl}/v1/auth/challenge`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ address: this._agent.address, client_type: "agent" }),
+    });
+    if (!challengeResponse.ok) {
+      throw new Error(`Failed to get challenge: ${challengeResponse.status}`);
+    }
+    const { challenge } = await challengeResponse.json() as { challenge: string };
+
+    const digest = Buffer.from(sha256.create().update(challenge).digest());
+    const proveResponse = await fetch(`${this.baseUrl}/v1/auth/prove`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        address: this._agent.address,
+        challenge,
+        challenge_response: await this._agent.signDigest(digest),
+        client_type: "agent",
+      }),
+    });
+    if (!proveResponse.ok) {
+      throw new Error(`Failed to prove authorization: ${proveResponse.status}`);
+    }
+    this._accessToken = (await proveResponse.json() as { access_token: string }).access_token;
+    log("Mailbox access token acquired", this._logger);
+  }
+}
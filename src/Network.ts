@@ -1,10 +1,10 @@
 import { CosmWasmClient, SigningCosmWasmClient } from "@cosmjs/cosmwasm-stargate";
-import { DirectSecp256k1HdWallet } from "@cosmjs/proto-signing";
 import { Coin } from "@cosmjs/amino";
 
-import { Identity } from "./crypto";
+import { Signer, registrationDigest } from "./crypto";
 import { AddressPrefix, AgentEndpoint, AgentInfo } from "./types";
 import { getLogger, LogLevel, log } from "./utils";
+import { LocalWallet } from "./Wallet";
 import {
   ALMANAC_CONTRACT_VERSION,
   ALMANAC_REGISTRATION_WAIT,
@@ -56,13 +56,19 @@ export class AlmanacContractRecord implements AgentInfo {
     this.metadata = data.metadata ?? null;
   }
 
-  sign(identity: Identity): void {
+  /**
+   * Sign the record on behalf of its agent.
+   *
+   * @param signer - The signer of the agent address.
+   */
+  async sign(signer: Signer): Promise<void> {
     this.timestamp = Math.floor(Date.now() / 1000) - ALMANAC_REGISTRATION_WAIT;
-    this.signature = identity.signRegistration(
+    this.signature = await signer.signDigest(registrationDigest(
       this.contract_address,
+      signer.address,
       this.timestamp,
       this.sender_address
-    );
+    ));
   }
 }
 
@@ -379,8 +385,8 @@ export class AlmanacContract {
   /**
    * Register an agent with the Almanac contract.
    * 
-   * @param client - The SigningCosmWasmClient instance
-   * @param wallet - The agent's wallet
+   * @param client - The SigningCosmWasmClient instance connected with the wallet
+   * @param wallet - The wallet paying for the registration
    * @param agentAddress - The agent's address
    * @param protocols - List of protocols
    * @param endpoints - List of endpoints
@@ -389,7 +395,7 @@ export class AlmanacContract {
    */
   async register(
     client: SigningCosmWasmClient,
-    wallet: DirectSecp256k1HdWallet,
+    wallet: LocalWallet,
     agentAddress: string,
     protocols: string[],
     endpoints: AgentEndpoint[],
@@ -400,11 +406,6 @@ export class AlmanacContract {
       throw new Error("Contract address not set");
     }
 
-    const [account] = await wallet.getAccounts();
-    if (!account) {
-      throw new Error("No account found in wallet");
-    }
-
     const almanacMsg = this.getRegistrationMsg(
       protocols,
       endpoints,
@@ -419,7 +420,7 @@ export class AlmanacContract {
     }];
 
     const result = await client.execute(
-      account.address,
+      wallet.address(),
       this.address,
       almanacMsg,
       "auto",
@@ -433,24 +434,19 @@ export class AlmanacContract {
   /**
    * Register multiple agents with the Almanac contract.
    * 
-   * @param client - The SigningCosmWasmClient instance
+   * @param client - The SigningCosmWasmClient instance connected with the wallet
    * @param wallet - The wallet of the registration sender
    * @param agentRecords - The list of signed agent records to register
    */
   async registerBatch(
     client: SigningCosmWasmClient,
-    wallet: DirectSecp256k1HdWallet,
+    wallet: LocalWallet,
     agentRecords: AlmanacContractRecord[]
   ): Promise<void> {
     if (!this.address) {
       throw new Error("Contract address not set");
     }
 
-    const [account] = await wallet.getAccounts();
-    if (!account) {
-      throw new Error("No account found in wallet");
-    }
-
     const messages = agentRecords.map(record => {
       if (record.timestamp === undefined) {
         throw new Error("Agent record is missing timestamp");
@@ -462,7 +458,7 @@ export class AlmanacContract {
       return {
         typeUrl: "/cosmwasm.wasm.v1.MsgExecuteContract",
         value: {
-          sender: account.address,
+          sender: wallet.address(),
           contract: this.address,
           msg: this.getRegistrationMsg(
             record.protocols,
@@ -479,11 +475,7 @@ export class AlmanacContract {
       };
     });
 
-    const result = await client.signAndBroadcast(
-      account.address,
-      messages,
-      "auto"
-    );
+    const result = await wallet.signAndBroadcast(client, messages);
 
     await waitForTxToComplete(result.transactionHash, this.client);
   }
@@ -685,7 +677,7 @@ export class NameServiceContract {
   /**
    * Register a name within a domain using the NameService contract.
    * 
-   * @param client - The SigningCosmWasmClient instance
+   * @param client - The SigningCosmWasmClient instance connected with the wallet
    * @param wallet - The wallet of the agent
    * @param agentRecords - The agent records to register
    * @param name - The name to be registered
@@ -694,7 +686,7 @@ export class NameServiceContract {
    */
   async register(
     client: SigningCosmWasmClient,
-    wallet: DirectSecp256k1HdWallet,
+    wallet: LocalWallet,
     agentRecords: string | string[] | Record<string, { weight?: number }>,
     name: string,
     domain: string,
@@ -707,11 +699,6 @@ export class NameServiceContract {
       throw new Error("Invalid record configuration");
     }
 
-    const [account] = await wallet.getAccounts();
-    if (!account) {
-      throw new Error("No account found in wallet");
-    }
-
     const isTestnet = (await client.getChainId()) === "dorado-1";
     const almanacContract = await getAlmanacContract(isTestnet);
 
@@ -744,7 +731,7 @@ export class NameServiceContract {
 
     const transaction = await this.getRegistrationTx(
       name,
-      account.address,
+      wallet.address(),
       finalRecords,
       domain,
       isTestnet
@@ -755,16 +742,7 @@ export class NameServiceContract {
       return;
     }
 
-    const signingClient = await SigningCosmWasmClient.connectWithSigner(
-      isTestnet ? TESTNET_RPC : MAINNET_RPC,
-      wallet
-    );
-
-    const result = await signingClient.signAndBroadcast(
-      account.address,
-      transaction.messages,
-      "auto"
-    );
+    const result = await wallet.signAndBroadcast(client, transaction.messages);
 
     await waitForTxToComplete(result.transactionHash, this.client);
     log("Registering name...complete", logger);
@@ -780,7 +758,7 @@ export class NameServiceContract {
   async unregister(
     name: string,
     domain: string,
-    wallet: DirectSecp256k1HdWallet,
+    wallet: LocalWallet,
     test: boolean = true
   ): Promise<void> {
     log("Unregistering name...", logger);
@@ -790,17 +768,7 @@ export class NameServiceContract {
       return;
     }
 
-    
-    // Create signing client
-    const signingClient = await SigningCosmWasmClient.connectWithSigner(
-      test ? TESTNET_RPC : MAINNET_RPC,
-      wallet
-    );
-    
-    const [account] = await wallet.getAccounts();
-    if (!account) {
-      throw new Error("No account found in wallet");
-    }
+    const signingClient = await wallet.connect(test);
     const msg = {
       remove_domain: {
         domain: `${name}.${domain}`,
@@ -808,7 +776,7 @@ export class NameServiceContract {
     };
     
     const result = await signingClient.execute(
-      account.address,
+      wallet.address(),
       this.address,
       msg,
       "auto"
@@ -288,6 +288,7 @@ export class Protocol {
       replySet.forEach((reply) => {
         const replyDigest = Model.buildSchemaDigest(reply);
         this._models[replyDigest] = reply;
+        this._replies[modelDigest]![replyDigest] = reply;
       });
     }
   }
@@ -327,7 +328,7 @@ export class Protocol {
     Object.entries(allModels).forEach(([digest, model]) => {
       manifest.models.push({
         digest,
-        schema: model.dump({}),
+        schema: Model.buildSchema(model),
       });
     });
 
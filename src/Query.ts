@@ -1 +1,143 @@
-export const query = "tmp";
+import { v4 as uuidv4 } from "uuid";
+
+import { DEFAULT_RETRY_POLICY, RetryPolicy, sendExchangeEnvelope } from "./Communication";
+import { DEFAULT_ENVELOPE_TIMEOUT_SECONDS } from "./Config";
+import { ErrorMessage } from "./Context";
+import { Signer, generateUserAddress } from "./crypto";
+import { WireFormat } from "./Encoding";
+import { Envelope, generateNonce, supportsPayloadEncryption } from "./Envelope";
+import { Model } from "./model";
+import { GlobalResolver, Resolver } from "./Resolver";
+import { DeliveryStatus, MsgStatus } from "./types";
+
+const ERROR_MESSAGE_DIGEST = Model.buildSchemaDigest(ErrorMessage);
+
+/**
+ * Options used to query an agent.
+ *
+ * @prop sender The sender signer, e.g. its identity, or a user address to send unsigned. Defaults to a new user address.
+ * @prop {Resolver} resolver The resolver for address-to-endpoint resolution. Defaults to the global resolver.
+ * @prop {number} timeout The timeout for the response in seconds. Defaults to 30.
+ * @prop {RetryPolicy} retryPolicy The policy used to retry failed deliveries.
+ * @prop {WireFormat} wireFormat The wire format of the query. The agent responds in the same format. Defaults to uncompressed JSON.
+ * @prop {boolean} encrypt Whether to encrypt the message for the destination, which must advertise support for encrypted payloads in its registration metadata. Agents respond with an encrypted payload to senders with a signer.
+ */
+export type QueryOptions = {
+  sender?: Signer | string;
+  resolver?: Resolver;
+  timeout?: number;
+  retryPolicy?: RetryPolicy;
+  encrypt?: boolean;
+  wireFormat?: WireFormat;
+};
+
+/**
+ * The result of a query: the validated response, or the status explaining why
+ * no valid response was received.
+ */
+export type QueryResult<T> =
+  | { ok: true; data: T; envelope: Envelope }
+  | { ok: false; status: MsgStatus };
+
+/**
+ * Query an agent: send a sync message and wait for its response.
+ *
+ * The response envelope must be signed by the destination agent and carry the
+ * schema digest of `responseModel`.
+ *
+ * @param destination - The address of the agent to query.
+ * @param messageModel - The model of the message.
+ * @param message - The message to send.
+ * @param responseModel - The model of the expected response.
+ * @param opts - The query options.
+ * @returns The validated response data, or the delivery status on failure.
+ */
+export async function query<TMessage extends Record<string, any>, TResponse extends Record<string, any>>(
+  destination: string,
+  messageModel: Model<TMessage>,
+  message: TMessage,
+  responseModel: Model<TResponse>,
+  opts: QueryOptions = {}
+): Promise<QueryResult<TResponse>> {
+  const timeout = opts.timeout ?? DEFAULT_ENVELOPE_TIMEOUT_SECONDS;
+  const sender = opts.sender ?? generateUserAddress();
+  const resolver = opts.resolver ?? new GlobalResolver();
+  const session = uuidv4();
+  const failed = (detail: string, endpoint: string = ""): QueryResult<TResponse> => ({
+    ok: false,
+    status: { status: DeliveryStatus.FAILED, detail, destination, endpoint, session },
+  });
+
+  let messageBody: string;
+  try {
+    messageBody = messageModel.dumpJson(messageModel.validate(message));
+  } catch (error) {
+    return failed(`Invalid message: ${error}`);
+  }
+
+  const [destinationAddress, endpoints] = await resolver.resolve(destination);
+  if (!destinationAddress || endpoints.length === 0) {
+    return failed("Failed to resolve destination address");
+  }
+
+  const env = new Envelope({
+    version: 1,
+    sender: typeof sender === "string" ? sender : sender.address,
+    target: destinationAddress,
+    session,
+    schemaDigest: Model.buildSchemaDigest(messageModel),
+    expires: Math.floor(Date.now() / 1000) + timeout,
+    nonce: generateNonce(),
+  });
+  if (opts.encrypt) {
+    if (!supportsPayloadEncryption(await resolver.metadata(destinationAddress))) {
+      return failed("Destination does not support encrypted payloads");
+    }
+    env.encryptPayload(messageBody);
+  } else {
+    env.encodePayload(messageBody);
+  }
+  if (typeof sender !== "string") {
+    await env.sign(sender);
+  }
+
+  const response = await sendExchangeEnvelope(
+    env,
+    endpoints,
+    true,
+    opts.retryPolicy ?? DEFAULT_RETRY_POLICY,
+    undefined,
+    opts.wireFormat
+  );
+  if (!(response instanceof Envelope)) {
+    return { ok: false, status: response };
+  }
+
+  if (response.sender !== destinationAddress) {
+    return failed(`Response sent by ${response.sender} instead of ${destinationAddress}`);
+  }
+  try {
+    response.verify();
+  } catch (error) {
+    return failed(`Response failed verification: ${error}`);
+  }
+
+  let payload: string;
+  try {
+    payload = typeof sender === "string" ? response.decodePayload() : await response.decryptPayload(sender);
+  } catch (error) {
+    return failed(`Unable to decode response: ${error}`);
+  }
+  if (response.schemaDigest !== Model.buildSchemaDigest(responseModel)) {
+    if (response.schemaDigest === ERROR_MESSAGE_DIGEST) {
+      return failed(`Agent responded with an error: ${payload}`);
+    }
+    return failed(`Unexpected response schema ${response.schemaDigest}`);
+  }
+
+  try {
+    return { ok: true, data: responseModel.validate(JSON.parse(payload)), envelope: response };
+  } catch (error) {
+    return failed(`Invalid response: ${error}`);
+  }
+}
@@ -4,25 +4,21 @@ import {
   ALMANAC_API_TIMEOUT_SECONDS,
   ALMANAC_CONTRACT_VERSION,
   ALMANAC_REGISTRATION_WAIT,
+  REGISTRATION_DENOM,
   REGISTRATION_FEE,
   REGISTRATION_UPDATE_INTERVAL_SECONDS,
 } from "./Config";
+import { SigningCosmWasmClient } from "@cosmjs/cosmwasm-stargate";
 import * as crypto from 'crypto'
-import { Identity } from "./crypto";
+import { Identity, Signer, registrationDigest } from "./crypto";
 import { AgentEndpoint, AgentInfo } from "./types";
-import { AlmanacContract, addTestnetFunds, InsufficientFundsError } from "./Network";
-import { log, getLogger, LogLevel } from "./utils";
+import { AlmanacContract, AlmanacContractRecord, addTestnetFunds, InsufficientFundsError } from "./Network";
+import { generateBackoffTime, log, getLogger, LogLevel } from "./utils";
+import { LocalWallet } from "./Wallet";
 import { parseIdentifier } from "./Resolver";
 
 const logger = getLogger(LogLevel.INFO, "AgentRegistration");
 
-/**
- * Generate a backoff time starting from 0.128 seconds and limited to ~131 seconds
- */
-function generateBackoffTime(retry: number): number {
-  return Math.min(2 ** (retry + 6), 131072) / 1000;
-}
-
 function JSONstringifyOrder(obj: any)
 {
     const allKeys: Set<string> = new Set();
@@ -35,7 +31,7 @@ interface VerifiableModel {
   signature?: string;
   timestamp?: number;
 
-  sign(identity: Identity): void;
+  sign(signer: Signer): Promise<void>;
   verify(identity: Identity): void;
 }
 
@@ -49,12 +45,12 @@ abstract class BaseVerifiableModel implements VerifiableModel {
   }
 
   /**
-   * Sign the current model with the provided Identity.
+   * Sign the current model with the provided signer.
    */
-  sign(identity: Identity) {
+  async sign(signer: Signer): Promise<void> {
     this.timestamp = Math.floor(Date.now() / 1000);
     const digest = this._buildDigest();
-    this.signature = identity.signDigest(digest);
+    this.signature = await signer.signDigest(digest);
   }
 
     /**
@@ -82,7 +78,7 @@ abstract class BaseVerifiableModel implements VerifiableModel {
   }
 }
 
-class AgentRegistrationAttestation extends BaseVerifiableModel {
+export class AgentRegistrationAttestation extends BaseVerifiableModel {
   protocols: string[];
   endpoints: AgentEndpoint[];
   metadata: Record<string, string> | null;
@@ -108,6 +104,59 @@ class AgentRegistrationAttestationBatch {
   }
 }
 
+/**
+ * A record, signed with the key of an agent's previous address, pointing to
+ * the address the agent moved to after rotating its keys.
+ *
+ * The record is published in the metadata of the previous address's
+ * registration, so peers resolving that address can follow it to the new one
+ * until the record expires.
+ */
+export class MovedToRecord extends BaseVerifiableModel {
+  moved_to: string;
+  expires: number;
+
+  /**
+   * @param agentAddress - The previous address of the agent.
+   * @param movedTo - The new address of the agent.
+   * @param expires - When peers stop following the record, in seconds since the epoch.
+   */
+  constructor(agentAddress: string, movedTo: string, expires: number) {
+    super(agentAddress);
+    this.moved_to = movedTo;
+    this.expires = expires;
+  }
+
+  get expired(): boolean {
+    return this.expires <= Date.now() / 1000;
+  }
+
+  /**
+   * Parse a record from its JSON representation.
+   *
+   * @returns The record, or null if the value is not a moved-to record.
+   */
+  static fromJSON(value: string): MovedToRecord | null {
+    let data: any;
+    try {
+      data = JSON.parse(value);
+    } catch {
+      return null;
+    }
+    if (
+      typeof data?.agent_identifier !== "string" ||
+      typeof data.moved_to !== "string" ||
+      typeof data.expires !== "number"
+    ) {
+      return null;
+    }
+    const record = new MovedToRecord(data.agent_identifier, data.moved_to, data.expires);
+    record.timestamp = data.timestamp;
+    record.signature = data.signature;
+    return record;
+  }
+}
+
 class AgentStatusUpdate extends BaseVerifiableModel {
   isActive: boolean;
 
@@ -140,13 +189,13 @@ async function almanacApiPost(
         log(`Failed after ${retries} retries: ${error}`, logger);
         return false;
       }
-      await new Promise((resolve) => setTimeout(resolve, generateBackoffTime(retry)));
+      await new Promise((resolve) => setTimeout(resolve, generateBackoffTime(retry) * 1000));
     }
   }
   return false;
 }
 
-abstract class AgentRegistrationPolicy {
+export abstract class AgentRegistrationPolicy {
   abstract register(
     agentIdentifier: string,
     protocols: string[],
@@ -155,19 +204,28 @@ abstract class AgentRegistrationPolicy {
   ): Promise<void>;
 }
 
-abstract class BatchRegistrationPolicy {
-  abstract addAgent(agentInfo: AgentInfo, identity: Identity): void;
+export abstract class BatchRegistrationPolicy {
+  /**
+   * Add an agent to the batch, replacing the agent with the same address.
+   */
+  abstract addAgent(agentInfo: AgentInfo, signer: Signer): void;
   abstract register(): Promise<void>;
+
+  /**
+   * Remove all agents from the batch, e.g. to add them again with their
+   * current information before the next registration.
+   */
+  clear(): void {}
 }
 
 export class AlmanacApiRegistrationPolicy extends AgentRegistrationPolicy {
-  private identity: Identity;
+  private signer: Signer;
   private almanacApi: string;
   private maxRetries: number;
 
-  constructor(identity: Identity, almanacApi: string = ALMANAC_API_URL) {
+  constructor(signer: Signer, almanacApi: string = ALMANAC_API_URL) {
     super();
-    this.identity = identity;
+    this.signer = signer;
     this.almanacApi = almanacApi;
     this.maxRetries = ALMANAC_API_MAX_RETRIES;
   }
@@ -184,7 +242,7 @@ export class AlmanacApiRegistrationPolicy extends AgentRegistrationPolicy {
       endpoints,
       metadata
     );
-    attestation.sign(this.identity);
+    await attestation.sign(this.signer);
 
     const success = await almanacApiPost(`${this.almanacApi}/agents`, attestation, this.maxRetries);
     if (success) {
@@ -195,22 +253,30 @@ export class AlmanacApiRegistrationPolicy extends AgentRegistrationPolicy {
   }
 }
 
+/**
+ * Get the registration fee balance of a wallet.
+ */
+async function getRegistrationBalance(ledger: SigningCosmWasmClient, wallet: LocalWallet): Promise<bigint> {
+  const balance = await ledger.getBalance(wallet.address(), REGISTRATION_DENOM);
+  return BigInt(balance.amount);
+}
+
 export class LedgerBasedRegistrationPolicy extends AgentRegistrationPolicy {
-  private identity: Identity;
-  private ledger: any;
-  private wallet: any;
+  private signer: Signer;
+  private ledger: SigningCosmWasmClient;
+  private wallet: LocalWallet;
   private almanacContract: AlmanacContract;
   private testnet: boolean;
 
   constructor(
-    identity: Identity,
-    ledger: any,
-    wallet: any,
+    signer: Signer,
+    ledger: SigningCosmWasmClient,
+    wallet: LocalWallet,
     almanacContract: AlmanacContract,
     testnet: boolean
   ) {
     super();
-    this.identity = identity;
+    this.signer = signer;
     this.ledger = ledger;
     this.wallet = wallet;
     this.almanacContract = almanacContract;
@@ -240,8 +306,8 @@ export class LedgerBasedRegistrationPolicy extends AgentRegistrationPolicy {
       JSON.stringify(endpoints) !== JSON.stringify(currentEndpoints) ||
       JSON.stringify(protocols) !== JSON.stringify(currentProtocols)
     ) {
-      const balance = await this.ledger.queryBankBalance(this.wallet.address());
-      if (balance < parseInt(REGISTRATION_FEE)) {
+      const balance = await getRegistrationBalance(this.ledger, this.wallet);
+      if (balance < BigInt(REGISTRATION_FEE)) {
         if (this.testnet) {
           await addTestnetFunds(this.wallet.address());
         } else {
@@ -251,11 +317,12 @@ export class LedgerBasedRegistrationPolicy extends AgentRegistrationPolicy {
 
       log("Registering on Almanac contract...", logger);
       const timestamp = Math.floor(Date.now() / 1000) - ALMANAC_REGISTRATION_WAIT;
-      const signature = this.identity.signRegistration(
+      const signature = await this.signer.signDigest(registrationDigest(
         this.almanacContract.getAddress(),
+        this.signer.address,
         timestamp,
         this.wallet.address()
-      );
+      ));
 
       await this.almanacContract.register(
         this.ledger,
@@ -276,24 +343,33 @@ export class LedgerBasedRegistrationPolicy extends AgentRegistrationPolicy {
 export class BatchAlmanacApiRegistrationPolicy extends BatchRegistrationPolicy {
   private almanacApi: string;
   private attestations: AgentRegistrationAttestation[];
+  private signers: Record<string, Signer>;
   private maxRetries: number;
 
   constructor(almanacApi: string = ALMANAC_API_URL) {
     super();
     this.almanacApi = almanacApi;
     this.attestations = [];
+    this.signers = {};
     this.maxRetries = ALMANAC_API_MAX_RETRIES;
   }
 
-  addAgent(agentInfo: AgentInfo, identity: Identity): void {
+  addAgent(agentInfo: AgentInfo, signer: Signer): void {
     const attestation = new AgentRegistrationAttestation(
       `${agentInfo.prefix}://${agentInfo.agent_address}`,
       agentInfo.protocols,
       agentInfo.endpoints,
       agentInfo.metadata,
     );
-    attestation.sign(identity);
-    this.attestations.push(attestation);
+    this.attestations = this.attestations
+      .filter((existing) => existing.agent_identifier !== attestation.agent_identifier)
+      .concat(attestation);
+    this.signers[attestation.agent_identifier] = signer;
+  }
+
+  clear(): void {
+    this.attestations = [];
+    this.signers = {};
   }
 
   async register(): Promise<void> {
@@ -302,6 +378,14 @@ export class BatchAlmanacApiRegistrationPolicy extends BatchRegistrationPolicy {
       return;
     }
 
+    for (const attestation of this.attestations) {
+      const signer = this.signers[attestation.agent_identifier];
+      if (!signer) {
+        throw new Error(`Signer for agent ${attestation.agent_identifier} is not defined.`);
+      }
+      await attestation.sign(signer);
+    }
+
     const batch = new AgentRegistrationAttestationBatch(this.attestations);
 
     const success = await almanacApiPost(`${this.almanacApi}/agents/batch`, batch, this.maxRetries);
@@ -314,16 +398,16 @@ export class BatchAlmanacApiRegistrationPolicy extends BatchRegistrationPolicy {
 }
 
 export class BatchLedgerRegistrationPolicy extends BatchRegistrationPolicy {
-  private ledger: any;
-  private wallet: any;
+  private ledger: SigningCosmWasmClient;
+  private wallet: LocalWallet;
   private almanacContract: AlmanacContract;
   private testnet: boolean;
-  private records: any[];
-  private identities: Record<string, Identity>;
+  private records: AlmanacContractRecord[];
+  private signers: Record<string, Signer>;
 
   constructor(
-    ledger: any,
-    wallet: any,
+    ledger: SigningCosmWasmClient,
+    wallet: LocalWallet,
     almanacContract: AlmanacContract,
     testnet: boolean
   ) {
@@ -333,33 +417,39 @@ export class BatchLedgerRegistrationPolicy extends BatchRegistrationPolicy {
     this.almanacContract = almanacContract;
     this.testnet = testnet;
     this.records = [];
-    this.identities = {};
+    this.signers = {};
   }
 
-  addAgent(agentInfo: AgentInfo, identity: Identity): void {
-    const record = {
-      agentAddress: agentInfo.agent_address,
+  addAgent(agentInfo: AgentInfo, signer: Signer): void {
+    const record = new AlmanacContractRecord({
+      agent_address: agentInfo.agent_address,
       protocols: agentInfo.protocols,
       endpoints: agentInfo.endpoints,
-      contractAddress: this.almanacContract.getAddress(),
-      senderAddress: this.wallet.address(),
-    };
-    this.records.push(record);
-    this.identities[agentInfo.agent_address] = identity;
+      contract_address: this.almanacContract.getAddress(),
+      sender_address: this.wallet.address(),
+      prefix: agentInfo.prefix,
+      metadata: agentInfo.metadata,
+    });
+    this.records = this.records
+      .filter((existing) => existing.agent_address !== record.agent_address)
+      .concat(record);
+    this.signers[agentInfo.agent_address] = signer;
   }
 
-  private async getBalance(): Promise<number> {
-    return await this.ledger.queryBankBalance(this.wallet.address());
+  clear(): void {
+    this.records = [];
+    this.signers = {};
   }
 
+
   async register(): Promise<void> {
     if (this.records.length === 0) {
       log("No agents to register in batch.", logger);
       return;
     }
 
-    const balance = await this.getBalance();
-    if (balance < parseInt(REGISTRATION_FEE) * this.records.length) {
+    const balance = await getRegistrationBalance(this.ledger, this.wallet);
+    if (balance < BigInt(REGISTRATION_FEE) * BigInt(this.records.length)) {
       log(
         `Insufficient funds to register ${this.records.length} agents.`,
         logger
@@ -373,16 +463,11 @@ export class BatchLedgerRegistrationPolicy extends BatchRegistrationPolicy {
     }
 
     for (const record of this.records) {
-      const identity = this.identities[record.agentAddress];
-      if (!identity) {
-        throw new Error(`Identity for agentAddress ${record.agentAddress} is not defined.`);
+      const signer = this.signers[record.agent_address];
+      if (!signer) {
+        throw new Error(`Signer for agentAddress ${record.agent_address} is not defined.`);
       }
-      const timestamp = Math.floor(Date.now() / 1000) - ALMANAC_REGISTRATION_WAIT;
-      record.signature = identity.signRegistration(
-        record.contractAddress,
-        timestamp,
-        record.senderAddress
-      );
+      await record.sign(signer);
     }
 
     await this.almanacContract.registerBatch(this.ledger, this.wallet, this.records);
@@ -395,18 +480,18 @@ export class DefaultRegistrationPolicy extends AgentRegistrationPolicy {
   private ledgerPolicy?: LedgerBasedRegistrationPolicy;
 
   constructor(
-    identity: Identity,
-    ledger?: any,
-    wallet?: any,
+    signer: Signer,
+    ledger?: SigningCosmWasmClient,
+    wallet?: LocalWallet,
     almanacContract?: AlmanacContract,
     testnet: boolean = true
   ) {
     super();
-    this.apiPolicy = new AlmanacApiRegistrationPolicy(identity);
+    this.apiPolicy = new AlmanacApiRegistrationPolicy(signer);
 
     if (ledger && wallet && almanacContract) {
       this.ledgerPolicy = new LedgerBasedRegistrationPolicy(
-        identity,
+        signer,
         ledger,
         wallet,
         almanacContract,
@@ -442,8 +527,8 @@ export class DefaultBatchRegistrationPolicy extends BatchRegistrationPolicy {
   private ledgerPolicy?: BatchLedgerRegistrationPolicy;
 
   constructor(
-    ledger?: any,
-    wallet?: any,
+    ledger?: SigningCosmWasmClient,
+    wallet?: LocalWallet,
     almanacContract?: AlmanacContract,
     testnet: boolean = true
   ) {
@@ -460,13 +545,18 @@ export class DefaultBatchRegistrationPolicy extends BatchRegistrationPolicy {
     }
   }
 
-  addAgent(agentInfo: AgentInfo, identity: Identity): void {
-    this.apiPolicy.addAgent(agentInfo, identity);
+  addAgent(agentInfo: AgentInfo, signer: Signer): void {
+    this.apiPolicy.addAgent(agentInfo, signer);
     if (this.ledgerPolicy) {
-      this.ledgerPolicy.addAgent(agentInfo, identity);
+      this.ledgerPolicy.addAgent(agentInfo, signer);
     }
   }
 
+  clear(): void {
+    this.apiPolicy.clear();
+    this.ledgerPolicy?.clear();
+  }
+
   async register(): Promise<void> {
     try {
       await this.apiPolicy.register();
@@ -1,13 +1,17 @@
 import {
   AGENT_ADDRESS_LENGTH,
   AGENT_PREFIX,
+  ALMANAC_API_TIMEOUT_SECONDS,
   ALMANAC_API_URL,
   DEFAULT_MAX_ENDPOINTS,
   MAINNET_PREFIX,
+  RESOLVER_METADATA_CACHE_SIZE,
+  RESOLVER_METADATA_TTL_SECONDS,
   TESTNET_PREFIX
 } from './Config';
 import { isUserAddress } from './crypto';
 import { getAlmanacContract, getNameServiceContract } from './Network';
+import { MovedToRecord } from './Registration';
 import { getLogger, Logger, LogLevel, log } from './utils';
 
 const logger: Logger = getLogger(LogLevel.WARN, "resolver")
@@ -170,6 +174,17 @@ async function getAgentAddress(name: string, test: boolean): Promise<string | nu
 
 abstract class Resolver {
 	abstract resolve(destination: string): Promise<[string | null, string[]]>;
+
+	/**
+	 * Get the registration metadata of an agent, e.g. to check the capabilities
+	 * it advertises.
+	 *
+	 * @param {string} address - The address of the agent.
+	 * @returns {Promise<Record<string, string> | null>} The metadata, or null if it is unknown.
+	 */
+	async metadata(address: string): Promise<Record<string, string> | null> {
+		return null;
+	}
 }
 
 class AlmanacContractResolver extends Resolver {
@@ -180,12 +195,21 @@ class AlmanacContractResolver extends Resolver {
 		this._maxEndpoints = maxEndpoints || DEFAULT_MAX_ENDPOINTS;
 	}
 
-	async resolve(destination: string): Promise<[string | null, string[]]> {
+	async resolve(destination: string, followMoves: boolean = true): Promise<[string | null, string[]]> {
 		const [prefix, , address] = parseIdentifier(destination);
 		const isTestnet = prefix !== MAINNET_PREFIX;
 		const result = await queryRecord(address, "service", isTestnet);
 		if (result) {
 			const record = result.record || {};
+
+			const movedTo = followMoves ? movedToAddress(address, record.metadata) : null;
+			if (movedTo) {
+				const [newAddress, newEndpoints] = await this.resolve(`${prefix ? `${prefix}://` : ''}${movedTo}`, false);
+				if (newAddress !== null) {
+					return [newAddress, newEndpoints];
+				}
+			}
+
 			const endpointList = record.service?.endpoints || [];
 
 			if (endpointList.length > 0) {
@@ -202,10 +226,34 @@ class AlmanacContractResolver extends Resolver {
 	}
 }
 
+/**
+ * Get the address an agent moved to after rotating its keys.
+ *
+ * @param address - The address the agent was registered with.
+ * @param metadata - The registration metadata of the address.
+ * @returns The new address if the metadata holds a valid, unexpired moved-to
+ * record signed by the address, null otherwise.
+ */
+function movedToAddress(address: string, metadata: any): string | null {
+	const record = typeof metadata?.moved_to === 'string' ? MovedToRecord.fromJSON(metadata.moved_to) : null;
+	if (!record || record.agent_identifier !== address || record.expired) {
+		return null;
+	}
+	try {
+		record.verify();
+	} catch (e) {
+		log(`Ignoring invalid moved-to record of ${address}: ${e}`, logger);
+		return null;
+	}
+	return record.moved_to;
+}
+
 class AlmanacApiResolver extends Resolver {
 	private _maxEndpoints: number;
 	private _almanacApiUrl: string;
 	private _almanacContractResolver: AlmanacContractResolver;
+	// registration metadata by address, with the time it is kept until
+	private _metadata: Map<string, [Record<string, string> | null, number]> = new Map();
 
 	constructor(maxEndpoints?: number, almanacApiUrl?: string) {
 		super();
@@ -214,7 +262,15 @@ class AlmanacApiResolver extends Resolver {
 		this._almanacContractResolver = new AlmanacContractResolver(this._maxEndpoints);
 	}
 
-	private async _apiResolve(destination: string): Promise<[string | null, string[]]> {
+	private _cacheMetadata(address: string, metadata: Record<string, string> | null): void {
+		this._metadata.delete(address);
+		this._metadata.set(address, [metadata, Date.now() / 1000 + RESOLVER_METADATA_TTL_SECONDS]);
+		if (this._metadata.size > RESOLVER_METADATA_CACHE_SIZE) {
+			this._metadata.delete(this._metadata.keys().next().value!);
+		}
+	}
+
+	private async _apiResolve(destination: string, followMoves: boolean = true): Promise<[string | null, string[]]> {
 		try {
 			const [, , address] = parseIdentifier(destination);
 			const response = await fetch(`${this._almanacApiUrl}/agents/${address}`);
@@ -227,6 +283,19 @@ class AlmanacApiResolver extends Resolver {
 			}
 
 			const agent = await response.json();
+			this._cacheMetadata(address, agent.metadata ?? null);
+
+			const movedTo = followMoves ? movedToAddress(address, agent.metadata) : null;
+			if (movedTo) {
+				const [newAddress, newEndpoints] = await this._apiResolve(movedTo, false);
+				if (newAddress !== null) {
+					return [newAddress, newEndpoints];
+				}
+				const [contractAddress, contractEndpoints] = await this._almanacContractResolver.resolve(movedTo, false);
+				if (contractAddress !== null) {
+					return [contractAddress, contractEndpoints];
+				}
+			}
 
 			const expiryStr = agent.expiry;
 			if (!expiryStr) {
@@ -252,6 +321,30 @@ class AlmanacApiResolver extends Resolver {
 		return [null, []];
 	}
 
+	/**
+	 * Get the registration metadata of an agent from the Almanac API. The
+	 * metadata is cached for a while, including when it is not found or the API
+	 * fails to answer in time, and is refreshed whenever the agent is resolved.
+	 */
+	async metadata(address: string): Promise<Record<string, string> | null> {
+		const cached = this._metadata.get(address);
+		if (cached && cached[1] > Date.now() / 1000) {
+			return cached[0];
+		}
+		try {
+			const response = await fetch(`${this._almanacApiUrl}/agents/${address}`, {
+				signal: AbortSignal.timeout(ALMANAC_API_TIMEOUT_SECONDS * 1000),
+			});
+			const agent = response.status === 200 ? await response.json() : null;
+			this._cacheMetadata(address, agent?.metadata ?? null);
+			return agent?.metadata ?? null;
+		} catch (e) {
+			log(`Error in AlmanacApiResolver when getting the metadata of ${address}: ${e}`, logger);
+			this._cacheMetadata(address, null);
+			return null;
+		}
+	}
+
 	async resolve(destination: string): Promise<[string | null, string[]]> {
 		const [address, endpoints] = await this._apiResolve(destination);
 		return address !== null
@@ -300,16 +393,30 @@ class GlobalResolver extends Resolver {
 
 		return [null, []];
 	}
+
+	async metadata(address: string): Promise<Record<string, string> | null> {
+		return await this._almanacApiResolver.metadata(address);
+	}
 }
 
 class RulesBasedResolver extends Resolver {
 	private _rules: Record<string, string[]>;
 	private _maxEndpoints: number;
+	private _metadata: Record<string, Record<string, string>>;
 
-	constructor(rules: Record<string, string[]>, maxEndpoints?: number) {
+	constructor(
+		rules: Record<string, string[]>,
+		maxEndpoints?: number,
+		metadata: Record<string, Record<string, string>> = {}
+	) {
 		super();
 		this._rules = rules;
 		this._maxEndpoints = maxEndpoints || DEFAULT_MAX_ENDPOINTS;
+		this._metadata = metadata;
+	}
+
+	async metadata(address: string): Promise<Record<string, string> | null> {
+		return this._metadata[address] ?? null;
 	}
 
 	async resolve(destination: string): Promise<[string | null, string[]]> {
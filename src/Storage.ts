@@ -1,25 +1,125 @@
 import fs from 'fs';
 import path from 'path';
 
-import { Identity } from './crypto';
+import { PASSPHRASE_ENV_VAR, STORAGE_WRITE_DELAY_SECONDS } from './Config';
+import { DecryptionError, EncryptedData, Identity, PassphraseKey, isEncryptedData } from './crypto';
 import { ec as EC } from 'elliptic';
+import { Model } from './model';
+import { getLogger, LogLevel, log } from './utils';
 
 const ec = new EC('secp256k1');
+const logger = getLogger(LogLevel.INFO, 'storage');
+
+/**
+ * The prefix of the keys the framework keeps in the agent storage, such as the
+ * outbox. These keys are hidden from, and cannot be changed through, the
+ * `ContextStorage` handed to handlers.
+ */
+const INTERNAL_KEY_PREFIX = '__uagents__/';
 
 /**
  * Interface for a key-value like storage system.
+ *
+ * Reads and writes are synchronous. Stores backed by a remote service keep a
+ * local copy of their data, read it in `load()` and write it through in the
+ * background; `flush()` waits until all writes have reached the backend.
  */
-interface StorageAPI {
+export interface StorageAPI {
   get(key: string): any | null;
   has(key: string): boolean;
+  keys(): string[];
   set(key: string, value: any): void;
   remove(key: string): void;
   clear(): void;
+  flush(): Promise<void>;
+  load?(): Promise<void>;
+}
+
+/**
+ * The passphrase set in the environment, used to encrypt storage and key files.
+ */
+function defaultPassphrase(): string | null {
+  return process.env[PASSPHRASE_ENV_VAR] || null;
+}
+
+/**
+ * Decrypt the content of an encrypted file.
+ *
+ * @returns The decrypted content and the key it was encrypted with.
+ * @throws Error if no passphrase is given.
+ * @throws DecryptionError if the passphrase is wrong.
+ */
+function decryptFile(
+  filePath: string,
+  content: EncryptedData,
+  passphrase: string | null
+): [string, PassphraseKey] {
+  if (!passphrase) {
+    throw new Error(`${filePath} is encrypted: set ${PASSPHRASE_ENV_VAR} or provide its passphrase`);
+  }
+  const key = PassphraseKey.forData(passphrase, content);
+  try {
+    return [key.decrypt(content), key];
+  } catch {
+    throw new DecryptionError(`Unable to decrypt ${filePath}: wrong passphrase or corrupted file`);
+  }
+}
+
+/**
+ * Read the data of a store file, decrypting it if it is encrypted.
+ *
+ * @param filePath - The path of the file.
+ * @param passphrase - The passphrase of the store.
+ * @returns The data and the key it was encrypted with, `'missing'` if there is
+ * no such file, or `'corrupted'` if it does not hold a JSON object.
+ * @throws Error if the file cannot be read, e.g. for lack of permissions.
+ * @throws Error if the file is encrypted and the passphrase is missing or wrong.
+ */
+function readStoreFile(
+  filePath: string,
+  passphrase: string | null
+): { data: { [key: string]: any }; key: PassphraseKey | null } | 'missing' | 'corrupted' {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 'missing';
+    }
+    throw error;
+  }
+  let content: any;
+  try {
+    content = JSON.parse(raw);
+  } catch {
+    return 'corrupted';
+  }
+  let key: PassphraseKey | null = null;
+  if (isEncryptedData(content)) {
+    let plaintext: string;
+    [plaintext, key] = decryptFile(filePath, content, passphrase);
+    try {
+      content = JSON.parse(plaintext);
+    } catch {
+      return 'corrupted';
+    }
+  }
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    return 'corrupted';
+  }
+  return { data: content, key };
 }
 
 /**
  * A simple key-value store implementation for data storage.
  *
+ * Writes are coalesced: changes made within the write delay are saved together,
+ * in the background, to a temporary file that then replaces the store file, so
+ * a crash never leaves a partially written file behind.
+ *
+ * With a passphrase, the file is encrypted with AES-256-GCM. A plaintext file
+ * opened with a passphrase is encrypted on the next write.
+ *
  * Attributes:
  *   _data ({ [key: string]: any }): The internal data storage dictionary.
  *   _name (string): The name associated with the store.
@@ -32,26 +132,48 @@ interface StorageAPI {
  *   set: Set a value associated with a key in the store.
  *   remove: Remove a key and its associated value from the store.
  *   clear: Clear all data from the store.
+ *   transaction: Apply several changes together.
+ *   flush: Write the store data to the file.
  *   _load: Load data from the file into the store.
- *   _save: Save the store data to the file.
+ *   _save: Schedule a write of the store data to the file.
+ *   _write: Write the store data to the file.
  */
 class KeyValueStore implements StorageAPI {
   private _data: { [key: string]: any } = {};
   private _name: string;
   private _path: string;
+  private _writeDelay: number;
+  private _timer: ReturnType<typeof setTimeout> | null = null;
+  private _dirty: boolean = false;
+  private _writing: Promise<void> = Promise.resolve();
+  private _error: unknown = null;
+  private _inTransaction: boolean = false;
+  private _passphrase: string | null;
+  private _key: PassphraseKey | null = null;
 
   /**
    * Initialize the KeyValueStore instance.
    *
    * @param name - The name associated with the store.
    * @param cwd - The current working directory. Defaults to null.
+   * @param writeDelay - How long to wait for further changes before writing, in seconds.
+   * @param passphrase - The passphrase used to encrypt the file. Defaults to the
+   * `UAGENTS_PASSPHRASE` environment variable; the file is not encrypted without one.
+   * @throws Error if the file is encrypted and the passphrase is missing or wrong.
    */
-  constructor(name: string, cwd: string | null = null) {
+  constructor(
+    name: string,
+    cwd: string | null = null,
+    writeDelay: number = STORAGE_WRITE_DELAY_SECONDS,
+    passphrase: string | null = defaultPassphrase()
+  ) {
     this._name = name || "my";
     const currentDir = cwd || process.cwd();
     this._path = path.join(currentDir, `${this._name}_data.json`);
+    this._writeDelay = writeDelay;
+    this._passphrase = passphrase;
 
-    if (fs.existsSync(this._path)) {
+    if (fs.existsSync(this._path) || fs.existsSync(this._tempPath)) {
       this._load();
     }
   }
@@ -60,10 +182,11 @@ class KeyValueStore implements StorageAPI {
    * Get the value associated with a key in the store.
    *
    * @param key - The key whose value to get.
-   * @returns The value associated with the key, or null if not found.
+   * @param defaultValue - The value returned if the key is not found. Defaults to null.
+   * @returns The value associated with the key, or the default value if not found.
    */
-  get(key: string): any | null {
-    return this._data[key] || null;
+  get(key: string, defaultValue: any = null): any {
+    return this.has(key) ? this._data[key] : defaultValue;
   }
 
   /**
@@ -73,7 +196,14 @@ class KeyValueStore implements StorageAPI {
    * @returns True if the key exists, false otherwise.
    */
   has(key: string): boolean {
-    return key in this._data;
+    return Object.prototype.hasOwnProperty.call(this._data, key);
+  }
+
+  /**
+   * List the keys of the store.
+   */
+  keys(): string[] {
+    return Object.keys(this._data);
   }
 
   /**
@@ -93,7 +223,7 @@ class KeyValueStore implements StorageAPI {
    * @param key - The key to remove.
    */
   remove(key: string): void {
-    if (key in this._data) {
+    if (this.has(key)) {
       delete this._data[key];
       this._save();
     }
@@ -107,72 +237,818 @@ class KeyValueStore implements StorageAPI {
     this._save();
   }
 
+  /**
+   * Apply several changes together: they are written to the file in the same
+   * write, and discarded if `fn` throws.
+   *
+   * @param fn - The function making the changes.
+   * @returns The result of `fn`.
+   * @throws The error thrown by `fn`, or an Error if `fn` is asynchronous.
+   */
+  transaction<T>(fn: (store: KeyValueStore) => T): T {
+    if (this._inTransaction) {
+      return fn(this);
+    }
+    const snapshot = JSON.stringify(this._data);
+    const wasDirty = this._dirty;
+    this._inTransaction = true;
+    try {
+      const result = fn(this);
+      if (result instanceof Promise) {
+        throw new Error('Transactions must be synchronous');
+      }
+      this._inTransaction = false;
+      if (this._dirty) {
+        this._save();
+      }
+      return result;
+    } catch (error) {
+      this._data = JSON.parse(snapshot);
+      this._dirty = wasDirty;
+      throw error;
+    } finally {
+      this._inTransaction = false;
+    }
+  }
+
+  /**
+   * Write the store data to the file, capturing values that were mutated in place,
+   * and wait until the write is done.
+   *
+   * @throws The error of the first write that failed since the last flush.
+   */
+  async flush(): Promise<void> {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+    if (Object.keys(this._data).length > 0 || fs.existsSync(this._path)) {
+      this._dirty = true;
+    }
+    await this._write();
+    const error = this._error;
+    this._error = null;
+    if (error) {
+      throw error;
+    }
+  }
+
+  private get _tempPath(): string {
+    return `${this._path}.tmp`;
+  }
+
   /**
    * Load data from the file into the store.
+   *
+   * A corrupted store file is kept aside as `<name>_data.json.corrupted`. The
+   * data is then recovered from the temporary file of an interrupted write, if
+   * any, or the store starts empty. Files that cannot be read are not treated
+   * as corrupted: the error is rethrown and the file is left untouched.
    */
   private _load(): void {
-    const data = fs.readFileSync(this._path, 'utf-8');
-    this._data = JSON.parse(data);
+    const file = readStoreFile(this._path, this._passphrase);
+    if (typeof file === 'object') {
+      this._data = file.data;
+      this._key = file.key;
+      if (this._passphrase && !file.key) {
+        log(`Encrypting store ${this._name}`, logger);
+        this._save();
+      }
+      return;
+    }
+    if (file === 'corrupted') {
+      fs.renameSync(this._path, `${this._path}.corrupted`);
+      log(`Store ${this._name} is corrupted and was moved to ${this._path}.corrupted`, logger);
+    }
+    const recovered = readStoreFile(this._tempPath, this._passphrase);
+    if (typeof recovered === 'object') {
+      this._data = recovered.data;
+      this._key = recovered.key;
+      log(`Recovered store ${this._name} from an interrupted write`, logger);
+      this._save();
+    }
   }
 
   /**
-   * Save the store data to the file.
+   * Encode the store data, encrypted if the store has a passphrase.
    */
-  private _save(): void {
+  private _serialize(): string {
     // syntax: JSON.stringify(value, replacer, space)
-    fs.writeFileSync(this._path, JSON.stringify(this._data, null, 4), 'utf-8');
+    const data = JSON.stringify(this._data, null, 4);
+    if (!this._passphrase) {
+      return data;
+    }
+    this._key = this._key || PassphraseKey.derive(this._passphrase);
+    return JSON.stringify(this._key.encrypt(data), null, 4);
+  }
+
+  /**
+   * Schedule a write of the store data to the file.
+   */
+  private _save(): void {
+    this._dirty = true;
+    if (this._inTransaction || this._timer) {
+      return;
+    }
+    this._timer = setTimeout(() => {
+      this._timer = null;
+      void this._write();
+    }, this._writeDelay * 1000);
+  }
+
+  /**
+   * Write the store data to a temporary file, then rename it over the store file.
+   * Writes run one at a time.
+   */
+  private _write(): Promise<void> {
+    this._writing = this._writing.then(async () => {
+      if (!this._dirty) {
+        return;
+      }
+      this._dirty = false;
+      const data = this._serialize();
+      try {
+        await fs.promises.writeFile(this._tempPath, data, 'utf-8');
+        await fs.promises.rename(this._tempPath, this._path);
+      } catch (error) {
+        this._dirty = true;
+        this._error = this._error || error;
+        log(`Failed to save store ${this._name}: ${error}`, logger);
+      }
+    });
+    return this._writing;
+  }
+}
+
+/**
+ * A storage keeping its data in memory only, e.g. for tests.
+ */
+class MemoryStorage implements StorageAPI {
+  private _data: Map<string, any> = new Map();
+
+  get(key: string): any | null {
+    return this._data.has(key) ? this._data.get(key) : null;
+  }
+
+  has(key: string): boolean {
+    return this._data.has(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this._data.keys());
+  }
+
+  set(key: string, value: any): void {
+    this._data.set(key, value);
+  }
+
+  remove(key: string): void {
+    this._data.delete(key);
+  }
+
+  clear(): void {
+    this._data.clear();
+  }
+
+  async flush(): Promise<void> {}
+}
+
+/**
+ * A prepared statement of a SQLite database.
+ */
+export interface SQLiteStatement {
+  run(...params: any[]): unknown;
+  get(...params: any[]): any;
+  all(...params: any[]): any[];
+}
+
+/**
+ * A synchronous SQLite database, such as a `better-sqlite3` database or a
+ * `DatabaseSync` from `node:sqlite`.
+ */
+export interface SQLiteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SQLiteStatement;
+}
+
+/**
+ * A storage keeping its data in a SQLite table, one row per key. Values are
+ * stored as JSON and read from the database on every `get`, so only the keys
+ * in use are held in memory.
+ */
+class SQLiteStorage implements StorageAPI {
+  private _getStatement: SQLiteStatement;
+  private _keysStatement: SQLiteStatement;
+  private _setStatement: SQLiteStatement;
+  private _removeStatement: SQLiteStatement;
+  private _clearStatement: SQLiteStatement;
+
+  /**
+   * Initialize the SQLiteStorage instance, creating its table if needed.
+   *
+   * @param database - The SQLite database.
+   * @param table - The name of the table. Defaults to "storage".
+   * @throws Error if the table name is not a valid identifier.
+   */
+  constructor(database: SQLiteDatabase, table: string = 'storage') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid table name: ${table}`);
+    }
+    database.exec(`CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, value TEXT NOT NULL)`);
+    this._getStatement = database.prepare(`SELECT value FROM ${table} WHERE key = ?`);
+    this._keysStatement = database.prepare(`SELECT key FROM ${table}`);
+    this._setStatement = database.prepare(
+      `INSERT INTO ${table} (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+    );
+    this._removeStatement = database.prepare(`DELETE FROM ${table} WHERE key = ?`);
+    this._clearStatement = database.prepare(`DELETE FROM ${table}`);
+  }
+
+  get(key: string): any | null {
+    const row = this._getStatement.get(key);
+    return row ? JSON.parse(row.value) : null;
+  }
+
+  has(key: string): boolean {
+    return this._getStatement.get(key) !== undefined;
+  }
+
+  keys(): string[] {
+    return this._keysStatement.all().map((row) => row.key);
+  }
+
+  set(key: string, value: any): void {
+    this._setStatement.run(key, JSON.stringify(value));
+  }
+
+  remove(key: string): void {
+    this._removeStatement.run(key);
+  }
+
+  clear(): void {
+    this._clearStatement.run();
+  }
+
+  async flush(): Promise<void> {}
+}
+
+/**
+ * The subset of a Redis client used by `RedisStorage`, as provided by `ioredis`.
+ */
+export interface RedisClient {
+  hgetall(key: string): Promise<Record<string, string>>;
+  hset(key: string, field: string, value: string): Promise<unknown>;
+  hdel(key: string, field: string): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * A storage keeping its data in a Redis hash, one field per key.
+ *
+ * The data is read from Redis in `load()` and served from memory afterwards.
+ * Writes are sent to Redis in the background, in order; `flush()` waits until
+ * they are done and fails if any of them failed.
+ */
+class RedisStorage implements StorageAPI {
+  private _client: RedisClient;
+  private _key: string;
+  private _data: Map<string, any> = new Map();
+  private _pending: Promise<void> = Promise.resolve();
+  private _error: unknown = null;
+
+  /**
+   * Initialize the RedisStorage instance.
+   *
+   * @param client - The Redis client.
+   * @param key - The key of the hash holding the data.
+   */
+  constructor(client: RedisClient, key: string) {
+    this._client = client;
+    this._key = key;
+  }
+
+  /**
+   * Load the data from Redis, replacing the local copy.
+   */
+  async load(): Promise<void> {
+    await this.flush();
+    const fields = await this._client.hgetall(this._key);
+    this._data = new Map(
+      Object.entries(fields).map(([key, value]) => [key, JSON.parse(value)])
+    );
+  }
+
+  get(key: string): any | null {
+    return this._data.has(key) ? this._data.get(key) : null;
+  }
+
+  has(key: string): boolean {
+    return this._data.has(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this._data.keys());
+  }
+
+  set(key: string, value: any): void {
+    this._data.set(key, value);
+    const encoded = JSON.stringify(value);
+    this._write(() => this._client.hset(this._key, key, encoded));
+  }
+
+  remove(key: string): void {
+    this._data.delete(key);
+    this._write(() => this._client.hdel(this._key, key));
+  }
+
+  clear(): void {
+    this._data.clear();
+    this._write(() => this._client.del(this._key));
+  }
+
+  /**
+   * Wait for the pending writes.
+   *
+   * @throws The error of the first write that failed since the last flush.
+   */
+  async flush(): Promise<void> {
+    await this._pending;
+    const error = this._error;
+    this._error = null;
+    if (error) {
+      throw error;
+    }
+  }
+
+  private _write(operation: () => Promise<unknown>): void {
+    this._pending = this._pending
+      .then(operation)
+      .then(
+        () => undefined,
+        (error) => {
+          this._error = this._error || error;
+        }
+      );
   }
 }
 
+/**
+ * Options used to set a value in a `ContextStorage`.
+ *
+ * @prop {number} ttlSeconds How long the value is kept, in seconds. Values are kept until removed by default.
+ */
+export type StorageSetOptions = {
+  ttlSeconds?: number;
+};
+
+/**
+ * The key marking values stored with an expiry time. It is reserved for the
+ * framework, so values set by handlers are never mistaken for expiring ones.
+ */
+const EXPIRES_KEY = `${INTERNAL_KEY_PREFIX}expires`;
+
+/**
+ * A value stored with an expiry time, in seconds since the epoch.
+ */
+type ExpiringValue = { [EXPIRES_KEY]: number; value: any };
+
+function isExpiringValue(stored: any): stored is ExpiringValue {
+  return (
+    stored !== null &&
+    typeof stored === 'object' &&
+    !Array.isArray(stored) &&
+    typeof stored[EXPIRES_KEY] === 'number' &&
+    'value' in stored &&
+    Object.keys(stored).length === 2
+  );
+}
+
+/**
+ * A listener called when the value of a key changes, with null for removed values.
+ */
+export type StorageChangeCallback = (value: any | null, previous: any | null) => void | Promise<void>;
+
+/**
+ * The storage handed to handlers through their context: a view of the agent
+ * storage that can be scoped to a namespace and holds values that expire.
+ *
+ * Expired values are removed when they are read, and periodically by the agent
+ * through `purgeExpired()`. Listeners registered with `onChange` are shared by
+ * all views of the agent storage, so handlers see the changes made by others.
+ * Keys starting with `INTERNAL_KEY_PREFIX` belong to the framework: they are
+ * left out of every view and cannot be read or written through one.
+ */
+class ContextStorage implements StorageAPI {
+  private _backend: StorageAPI;
+  private _prefix: string;
+  private _listeners: Map<string, Set<StorageChangeCallback>>;
+
+  /**
+   * Initialize the ContextStorage instance.
+   *
+   * @param backend - The storage holding the data.
+   * @param prefix - The prefix of the keys of the view.
+   * @param listeners - The change listeners, keyed by full key, shared with the parent view.
+   */
+  constructor(
+    backend: StorageAPI,
+    prefix: string = '',
+    listeners: Map<string, Set<StorageChangeCallback>> = new Map()
+  ) {
+    this._backend = backend;
+    this._prefix = prefix;
+    this._listeners = listeners;
+  }
+
+  /**
+   * Get a view of the storage whose keys do not collide with other namespaces,
+   * e.g. `ctx.storage.namespace(protocol.canonicalName)`.
+   *
+   * @param name - The name of the namespace.
+   * @returns The view of the namespace.
+   */
+  namespace(name: string): ContextStorage {
+    if (!name) {
+      throw new Error('Namespace name must not be empty');
+    }
+    const prefix = `${this._prefix}${name}/`;
+    if (prefix.startsWith(INTERNAL_KEY_PREFIX)) {
+      throw new Error(`Namespace ${name} is reserved`);
+    }
+    return new ContextStorage(this._backend, prefix, this._listeners);
+  }
+
+  /**
+   * Get the value associated with a key.
+   *
+   * @param key - The key whose value to get.
+   * @param model - The model the value is validated against.
+   * @param defaultValue - The value returned if the key is not found. Defaults to null.
+   * @returns The value, or the default value if not found or expired.
+   * @throws Error if the value does not match the model.
+   */
+  get<T extends Record<string, any>>(key: string, model: Model<T>, defaultValue?: T): T | null;
+  get<T = any>(key: string, defaultValue: T): T;
+  get(key: string): any | null;
+  get(key: string, modelOrDefault?: any, defaultValue: any = null): any {
+    const model = modelOrDefault instanceof Model ? modelOrDefault : undefined;
+    if (!model && modelOrDefault !== undefined) {
+      defaultValue = modelOrDefault;
+    }
+    const value = this._read(key);
+    if (value === undefined) {
+      return defaultValue;
+    }
+    if (!model) {
+      return value;
+    }
+    try {
+      return model.validate(value);
+    } catch (error) {
+      throw new Error(`Stored value of ${key} does not match its model: ${error}`);
+    }
+  }
+
+  has(key: string): boolean {
+    return this._read(key) !== undefined;
+  }
+
+  /**
+   * List the keys of the view that have not expired.
+   */
+  keys(): string[] {
+    return this._ownKeys().filter((key) => this.has(key));
+  }
+
+  /**
+   * List the keys and values of the view that have not expired.
+   */
+  entries(): Array<[string, any]> {
+    const entries: Array<[string, any]> = [];
+    for (const key of this._ownKeys()) {
+      const value = this._read(key);
+      if (value !== undefined) {
+        entries.push([key, value]);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Set a value associated with a key.
+   *
+   * @param key - The key whose value to set.
+   * @param value - The value to associate with the key.
+   * @param options - The options, such as how long the value is kept.
+   * @throws Error if the TTL is not positive.
+   */
+  set(key: string, value: any, options: StorageSetOptions = {}): void {
+    let stored = value;
+    if (options.ttlSeconds !== undefined) {
+      if (!(options.ttlSeconds > 0)) {
+        throw new Error(`Invalid TTL: ${options.ttlSeconds}`);
+      }
+      stored = { [EXPIRES_KEY]: Date.now() / 1000 + options.ttlSeconds, value } as ExpiringValue;
+    }
+    this._write(key, stored, value);
+  }
+
+  /**
+   * Add to the number stored at a key, keeping its expiry time.
+   *
+   * @param key - The key of the number.
+   * @param by - The amount to add. Defaults to 1.
+   * @returns The new number.
+   * @throws Error if the stored value is not a number.
+   */
+  increment(key: string, by: number = 1): number {
+    const current = this._read(key) ?? 0;
+    if (typeof current !== 'number') {
+      throw new Error(`Stored value of ${key} is not a number`);
+    }
+    const value = current + by;
+    const stored = this._backend.get(this._fullKey(key));
+    this._write(key, isExpiringValue(stored) ? { ...stored, value } : value, value);
+    return value;
+  }
+
+  remove(key: string): void {
+    const fullKey = this._fullKey(key);
+    const previous = this._listeners.has(fullKey) ? this._read(key) : undefined;
+    this._backend.remove(fullKey);
+    if (previous !== undefined) {
+      this._notify(key, null, previous);
+    }
+  }
+
+  /**
+   * Remove all values of the view, leaving the internal keys of the framework.
+   */
+  clear(): void {
+    for (const key of this._ownKeys()) {
+      this.remove(key);
+    }
+  }
+
+  /**
+   * Call a listener whenever the value of a key of the view changes, expires
+   * or is removed.
+   *
+   * @param key - The key to watch.
+   * @param callback - The listener, called with the new and previous values.
+   * @returns A function removing the listener.
+   */
+  onChange(key: string, callback: StorageChangeCallback): () => void {
+    const fullKey = this._fullKey(key);
+    const listeners = this._listeners.get(fullKey) ?? new Set();
+    listeners.add(callback);
+    this._listeners.set(fullKey, listeners);
+    return () => {
+      listeners.delete(callback);
+      if (listeners.size === 0 && this._listeners.get(fullKey) === listeners) {
+        this._listeners.delete(fullKey);
+      }
+    };
+  }
+
+  /**
+   * Remove the expired values of the view.
+   *
+   * @returns The number of values removed.
+   */
+  purgeExpired(): number {
+    const now = Date.now() / 1000;
+    let removed = 0;
+    for (const key of this._ownKeys()) {
+      const stored = this._backend.get(this._prefix + key);
+      if (isExpiringValue(stored) && stored[EXPIRES_KEY] <= now) {
+        this._backend.remove(this._prefix + key);
+        this._notify(key, null, stored.value);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async flush(): Promise<void> {
+    await this._backend.flush();
+  }
+
+  /**
+   * The keys of the view, relative to its prefix, including expired ones.
+   */
+  private _ownKeys(): string[] {
+    return this._backend
+      .keys()
+      .filter((key) => key.startsWith(this._prefix) && !key.startsWith(INTERNAL_KEY_PREFIX))
+      .map((key) => key.slice(this._prefix.length));
+  }
+
+  /**
+   * The key of the backend holding a key of the view.
+   *
+   * @throws Error if the key is reserved for the framework.
+   */
+  private _fullKey(key: string): string {
+    const fullKey = this._prefix + key;
+    if (fullKey.startsWith(INTERNAL_KEY_PREFIX)) {
+      throw new Error(`Key ${key} is reserved`);
+    }
+    return fullKey;
+  }
+
+  /**
+   * Read a value, removing it if it has expired.
+   *
+   * @returns The value, or undefined if not found or expired.
+   */
+  private _read(key: string): any {
+    const fullKey = this._fullKey(key);
+    if (!this._backend.has(fullKey)) {
+      return undefined;
+    }
+    const stored = this._backend.get(fullKey);
+    if (!isExpiringValue(stored)) {
+      return stored;
+    }
+    if (stored[EXPIRES_KEY] <= Date.now() / 1000) {
+      this._backend.remove(fullKey);
+      this._notify(key, null, stored.value);
+      return undefined;
+    }
+    return stored.value;
+  }
+
+  /**
+   * Store a value and notify the listeners of the key.
+   */
+  private _write(key: string, stored: any, value: any): void {
+    const fullKey = this._fullKey(key);
+    const previous = this._listeners.has(fullKey) ? this._read(key) : undefined;
+    this._backend.set(fullKey, stored);
+    this._notify(key, value, previous ?? null);
+  }
+
+  private _notify(key: string, value: any, previous: any): void {
+    const listeners = this._listeners.get(this._prefix + key);
+    if (!listeners) {
+      return;
+    }
+    for (const callback of Array.from(listeners)) {
+      try {
+        void Promise.resolve(callback(value, previous)).catch((error) => {
+          log(`Error in storage listener of ${key}: ${error}`, logger);
+        });
+      } catch (error) {
+        log(`Error in storage listener of ${key}: ${error}`, logger);
+      }
+    }
+  }
+}
+
+/**
+ * The configuration of an agent storage.
+ *
+ * - `file`: a `KeyValueStore` named after the agent unless `name` is given,
+ *   encrypted with `passphrase` if given.
+ * - `memory`: a `MemoryStorage`.
+ * - `sqlite`: a `SQLiteStorage` in the given database.
+ * - `redis`: a `RedisStorage` in the given hash, named after the agent unless `key` is given.
+ */
+export type StorageConfig =
+  | { type: 'file'; name?: string; cwd?: string; passphrase?: string }
+  | { type: 'memory' }
+  | { type: 'sqlite'; database: SQLiteDatabase; table?: string }
+  | { type: 'redis'; client: RedisClient; key?: string };
+
+/**
+ * Create a storage from its configuration.
+ *
+ * @param config - The storage or its configuration. Defaults to a file store.
+ * @param name - The default name of the storage.
+ * @param passphrase - The default passphrase of file stores.
+ * @returns The storage.
+ */
+function createStorage(
+  config: StorageAPI | StorageConfig | undefined,
+  name: string,
+  passphrase?: string
+): StorageAPI {
+  if (!config) {
+    return new KeyValueStore(name, null, undefined, passphrase);
+  }
+  if (!('type' in config)) {
+    return config;
+  }
+  switch (config.type) {
+    case 'file':
+      return new KeyValueStore(config.name || name, config.cwd ?? null, undefined, config.passphrase ?? passphrase);
+    case 'memory':
+      return new MemoryStorage();
+    case 'sqlite':
+      return new SQLiteStorage(config.database, config.table);
+    case 'redis':
+      return new RedisStorage(config.client, config.key || name);
+    default:
+      throw new Error(`Unsupported storage type: ${(config as any).type}`);
+  }
+}
+
+/**
+ * The path of the private keys file in the working directory.
+ */
+function defaultPrivateKeysPath(): string {
+  return path.join(process.cwd(), "private_keys.json");
+}
+
 /**
  * Load all private keys from the private keys file.
  *
- * @returns A dictionary containing loaded private keys.
+ * @param passphrase - The passphrase of the file, if it is encrypted.
+ * @param privateKeysPath - The path of the file. Defaults to `private_keys.json` in the working directory.
+ * @returns A dictionary containing loaded private keys, and whether the file is encrypted.
+ * @throws Error if the file is encrypted and the passphrase is missing or wrong.
  */
-function loadAllKeys(): { [key: string]: any } {
-  const privateKeysPath = path.join(process.cwd(), "private_keys.json");
-  if (fs.existsSync(privateKeysPath)) {
-    const data = fs.readFileSync(privateKeysPath, 'utf-8');
-    return JSON.parse(data);
+function loadAllKeys(
+  passphrase: string | null,
+  privateKeysPath: string = defaultPrivateKeysPath()
+): [{ [key: string]: any }, boolean] {
+  if (!fs.existsSync(privateKeysPath)) {
+    return [{}, false];
   }
-  return {};
+  const content = JSON.parse(fs.readFileSync(privateKeysPath, 'utf-8'));
+  if (!isEncryptedData(content)) {
+    return [content, false];
+  }
+  const [data] = decryptFile(privateKeysPath, content, passphrase);
+  return [JSON.parse(data), true];
 }
 
 /**
- * Save private keys to the private keys file.
+ * Save private keys to the private keys file, readable by the owner only.
  *
- * @param name - The name associated with the private keys.
- * @param identityKey - The identity private key.
- * @param walletKey - The wallet private key.
+ * @param privateKeys - The private keys, keyed by name.
+ * @param passphrase - The passphrase used to encrypt the file, if any.
+ * @param privateKeysPath - The path of the file. Defaults to `private_keys.json` in the working directory.
  */
-function savePrivateKeys(name: string, identityKey: string, walletKey: string): void {
-  const privateKeys = loadAllKeys();
-  privateKeys[name] = { identity_key: identityKey, wallet_key: walletKey };
+function savePrivateKeys(
+  privateKeys: { [key: string]: any },
+  passphrase: string | null,
+  privateKeysPath: string = defaultPrivateKeysPath()
+): void {
+  let data = JSON.stringify(privateKeys, null, 4);
+  if (passphrase) {
+    data = JSON.stringify(PassphraseKey.derive(passphrase).encrypt(data), null, 4);
+  }
 
-  const privateKeysPath = path.join(process.cwd(), "private_keys.json");
-  fs.writeFileSync(privateKeysPath, JSON.stringify(privateKeys, null, 4), 'utf-8');
+  fs.writeFileSync(`${privateKeysPath}.tmp`, data, { encoding: 'utf-8', mode: 0o600 });
+  fs.renameSync(`${privateKeysPath}.tmp`, privateKeysPath);
 }
 
 /**
  * Get or create private keys associated with a name.
  *
+ * With a passphrase, the private keys file is encrypted with AES-256-GCM; an
+ * existing plaintext file is encrypted the first time it is read.
+ *
  * @param name - The name associated with the private keys.
+ * @param passphrase - The passphrase of the private keys file. Defaults to the
+ * `UAGENTS_PASSPHRASE` environment variable; the file is not encrypted without one.
  * @returns A tuple containing the identity key and wallet key.
+ * @throws Error if the file is encrypted and the passphrase is missing or wrong.
  */
-function getOrCreatePrivateKeys(name: string): [string, string] {
-  const keys = loadAllKeys();
-  if (name in keys) {
-    const privateKeys = keys[name];
-    if (privateKeys) {
-      return [privateKeys.identity_key, privateKeys.wallet_key];
+function getOrCreatePrivateKeys(
+  name: string,
+  passphrase: string | null = defaultPassphrase()
+): [string, string] {
+  const [keys, encrypted] = loadAllKeys(passphrase);
+  const privateKeys = keys[name];
+  if (privateKeys) {
+    if (passphrase && !encrypted) {
+      savePrivateKeys(keys, passphrase);
+      log('Encrypted the private keys file', logger);
     }
+    return [privateKeys.identity_key, privateKeys.wallet_key];
   }
 
   const identityKey = Identity.generate().privateKey;
   const walletKey = ec.genKeyPair().getPrivate("hex");
 
-  savePrivateKeys(name, identityKey, walletKey);
+  keys[name] = { identity_key: identityKey, wallet_key: walletKey };
+  savePrivateKeys(keys, passphrase);
   return [identityKey, walletKey];
 }
 
-export { KeyValueStore };
+export {
+  ContextStorage,
+  INTERNAL_KEY_PREFIX,
+  KeyValueStore,
+  MemoryStorage,
+  RedisStorage,
+  SQLiteStorage,
+  createStorage,
+  defaultPassphrase,
+  getOrCreatePrivateKeys,
+  loadAllKeys,
+  savePrivateKeys,
+};
@@ -1 +1,660 @@
-export const Wallet = "tmp";
+import { encodeSecp256k1Pubkey, pubkeyToAddress, serializeSignDoc } from "@cosmjs/amino";
+import { SigningCosmWasmClient } from "@cosmjs/cosmwasm-stargate";
+import { DirectSecp256k1Wallet, EncodeObject } from "@cosmjs/proto-signing";
+import { DeliverTxResponse, GasPrice } from "@cosmjs/stargate";
+import { createHash } from "crypto";
+import { decrypt, encrypt } from "eciesjs";
+import { ec as EC } from "elliptic";
+
+import {
+  LEDGER_PREFIX,
+  MAINNET_GAS_PRICE,
+  MAINNET_RPC,
+  TESTNET_CHAIN_ID,
+  TESTNET_GAS_PRICE,
+  TESTNET_RPC,
+  WALLET_MESSAGING_AUTH_URL,
+  WALLET_MESSAGING_POLL_INTERVAL_SECONDS,
+  WALLET_MESSAGING_SERVER_URL,
+} from "./Config";
+import { cosmosHdPath, deriveKeyFromMnemonic, deriveKeyFromSeed, makeArbitrarySignDoc } from "./crypto";
+import { Future, getLogger, Logger, LogLevel, log } from "./utils";
+
+const ec = new EC("secp256k1");
+
+/**
+ * A message exchanged between ledger wallets.
+ *
+ * @prop {string} sender The wallet address of the sender.
+ * @prop {string} target The wallet address of the recipient.
+ * @prop {string} text The text of the message.
+ * @prop {number} msgType The type of the message.
+ * @prop {number} timestamp The time the message was sent, in seconds since the epoch.
+ */
+export type WalletMessage = {
+  sender: string;
+  target: string;
+  text: string;
+  msgType: number;
+  timestamp: number;
+};
+
+/**
+ * The transport used by the wallet messaging client to send and receive messages.
+ *
+ * `FetchWalletMessagingTransport` exchanges messages with any wallet through the
+ * Fetch.ai wallet messaging service, and `InMemoryWalletMessagingTransport`
+ * within the process, for tests. Transports only return messages whose sender
+ * they authenticated.
+ */
+export interface WalletMessagingTransport {
+  /**
+   * Send a message from a wallet to the wallet of its target.
+   */
+  send(wallet: LocalWallet, message: WalletMessage): Promise<void>;
+
+  /**
+   * Retrieve the messages received by a wallet since the last call.
+   */
+  receive(wallet: LocalWallet): Promise<WalletMessage[]>;
+}
+
+/**
+ * A transport delivering wallet messages within the process, for tests. The
+ * wallets sharing the transport trust each other.
+ */
+export class InMemoryWalletMessagingTransport implements WalletMessagingTransport {
+  private _inboxes: Map<string, WalletMessage[]> = new Map();
+
+  async send(wallet: LocalWallet, message: WalletMessage): Promise<void> {
+    if (message.sender !== wallet.address()) {
+      throw new Error("Wallet messages can only be sent by the wallet of their sender");
+    }
+    const inbox = this._inboxes.get(message.target) ?? [];
+    inbox.push(message);
+    this._inboxes.set(message.target, inbox);
+  }
+
+  async receive(wallet: LocalWallet): Promise<WalletMessage[]> {
+    const inbox = this._inboxes.get(wallet.address()) ?? [];
+    this._inboxes.delete(wallet.address());
+    return inbox;
+  }
+}
+
+const MESSAGING_CHANNEL = "MESSAGING";
+const MESSAGING_KEY_TEXT = "Create Messaging Signing Secret encryption key. Only approve requests by Keplr.";
+
+const PUBLIC_KEY_QUERY = `query Query($address: String!, $chainId: ChainId!, $channelId: ChannelId!) {
+  publicKey(address: $address, chainId: $chainId, channelId: $channelId) { publicKey }
+}`;
+const UPDATE_PUBLIC_KEY_MUTATION = `mutation Mutation($publicKeyDetails: InputPublicKeyDetails!) {
+  updatePublicKey(publicKeyDetails: $publicKeyDetails) { publicKey }
+}`;
+const DISPATCH_MESSAGES_MUTATION = `mutation Mutation($messages: [InputMessage!]!) {
+  dispatchMessages(messages: $messages) { id }
+}`;
+const MAILBOX_QUERY = `query Query {
+  mailbox { messages { id contents commitTimestamp } }
+}`;
+
+/**
+ * An envelope of the wallet messaging service, stored base64 encoded as the
+ * contents of a message.
+ *
+ * @prop {string} data The base64 encoded `MessageData`, encrypted for both the sender and the target.
+ * @prop {string} senderPublicKey The messaging public key of the sender.
+ * @prop {string} targetPublicKey The messaging public key of the target.
+ * @prop {string} signature The base64 encoded signature of the data by the sender messaging key.
+ */
+type MessagingEnvelope = {
+  data: string;
+  senderPublicKey: string;
+  targetPublicKey: string;
+  groupLastSeenTimestamp: string;
+  lastSeenTimestamp: string;
+  signature: string;
+  channelId: string;
+};
+
+/**
+ * The decrypted data of a message of the wallet messaging service.
+ */
+type MessageData = {
+  sender: string;
+  target: string;
+  type: number;
+  content: { text: string };
+};
+
+type MailboxMessage = {
+  id: string;
+  contents: string;
+  commitTimestamp: string;
+};
+
+/**
+ * The state of a wallet connected to the wallet messaging service.
+ *
+ * @prop {string | null} token The access token, or null until authenticated.
+ * @prop {EC.KeyPair} key The messaging key of the wallet.
+ * @prop {boolean} registered Whether the messaging public key is registered.
+ * @prop {number} since The commit time of the last received message, in milliseconds since the epoch.
+ */
+type MessagingSession = {
+  token: string | null;
+  key: EC.KeyPair;
+  registered: boolean;
+  since: number;
+};
+
+function encodeBase64(data: string | Uint8Array): string {
+  return Buffer.from(data).toString("base64");
+}
+
+function decodeBase64(data: string): string {
+  return Buffer.from(data, "base64").toString("utf-8");
+}
+
+function sha256(data: string | Buffer): Buffer {
+  return createHash("sha256").update(data).digest();
+}
+
+function signDigest(key: EC.KeyPair, digest: Buffer): Buffer {
+  const signature = key.sign(digest, { canonical: true });
+  return Buffer.concat([signature.r.toArrayLike(Buffer, "be", 32), signature.s.toArrayLike(Buffer, "be", 32)]);
+}
+
+/**
+ * Derive the messaging key of a wallet from its signature of a fixed text, as
+ * the Fetch wallet does, so that the same wallet always has the same key.
+ */
+function messagingKey(wallet: LocalWallet): EC.KeyPair {
+  const signature = signDigest(ec.keyFromPrivate(wallet.privateKey, "hex"), sha256(MESSAGING_KEY_TEXT));
+  return ec.keyFromPrivate(sha256(signature));
+}
+
+function verifyEnvelope(envelope: MessagingEnvelope): boolean {
+  try {
+    const signature = Buffer.from(envelope.signature, "base64");
+    return signature.length === 64 && ec.keyFromPublic(envelope.senderPublicKey, "hex").verify(sha256(envelope.data), {
+      r: signature.subarray(0, 32).toString("hex"),
+      s: signature.subarray(32).toString("hex"),
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A transport exchanging wallet messages through the Fetch.ai wallet messaging
+ * service, with Fetch wallets and Python agents alike.
+ *
+ * Each wallet logs in to the service by signing a challenge (ADR-036) and
+ * registers a messaging key derived from its private key. Messages are
+ * encrypted (ECIES) for the messaging keys of both the sender and the target
+ * and signed with the messaging key of the sender. Received messages are only
+ * returned if their signature matches the messaging key registered for their
+ * sender.
+ */
+export class FetchWalletMessagingTransport implements WalletMessagingTransport {
+  private _chainId: string;
+  private _logger: Logger;
+  private _authUrl: string;
+  private _serverUrl: string;
+  private _sessions: Map<string, MessagingSession> = new Map();
+
+  /**
+   * Initialize the transport.
+   *
+   * @param chainId - The chain of the wallets. Defaults to the testnet.
+   * @param logger - The logger to use.
+   * @param authUrl - The URL of the authentication service.
+   * @param serverUrl - The URL of the GraphQL API of the messaging service.
+   */
+  constructor(
+    chainId: string = TESTNET_CHAIN_ID,
+    logger?: Logger,
+    authUrl: string = WALLET_MESSAGING_AUTH_URL,
+    serverUrl: string = WALLET_MESSAGING_SERVER_URL
+  ) {
+    this._chainId = chainId;
+    this._logger = logger || getLogger(LogLevel.INFO, "wallet_messaging");
+    this._authUrl = authUrl;
+    this._serverUrl = serverUrl;
+  }
+
+  /**
+   * Encrypt, sign and dispatch a message.
+   *
+   * @throws Error if the target has no registered messaging key or the service rejects the message.
+   */
+  async send(wallet: LocalWallet, message: WalletMessage): Promise<void> {
+    const session = await this._session(wallet);
+    const targetPublicKey = await this._lookupPublicKey(session, message.target);
+    if (!targetPublicKey) {
+      throw new Error(`Wallet ${message.target} is not registered for wallet messaging`);
+    }
+    const senderPublicKey = session.key.getPublic(true, "hex");
+    const messageData: MessageData = {
+      sender: message.sender,
+      target: message.target,
+      type: message.msgType,
+      content: { text: message.text },
+    };
+    const encoded = Buffer.from(encodeBase64(JSON.stringify(messageData)));
+    const data = encodeBase64(JSON.stringify({
+      encryptedSenderData: encodeBase64(encrypt(senderPublicKey, encoded)),
+      encryptedTargetData: encodeBase64(encrypt(targetPublicKey, encoded)),
+    }));
+    const sentAt = new Date(message.timestamp * 1000).toISOString();
+    const envelope: MessagingEnvelope = {
+      data,
+      senderPublicKey,
+      targetPublicKey,
+      groupLastSeenTimestamp: sentAt,
+      lastSeenTimestamp: sentAt,
+      signature: encodeBase64(signDigest(session.key, sha256(data))),
+      channelId: MESSAGING_CHANNEL,
+    };
+    await this._request(session, DISPATCH_MESSAGES_MUTATION, {
+      messages: [{ contents: encodeBase64(JSON.stringify(envelope)) }],
+    });
+  }
+
+  /**
+   * Retrieve the messages committed since the last call, or since the wallet
+   * connected for the first call, dropping those failing authentication.
+   */
+  async receive(wallet: LocalWallet): Promise<WalletMessage[]> {
+    const session = await this._session(wallet);
+    const { mailbox } = await this._request<{ mailbox: { messages: MailboxMessage[] } }>(session, MAILBOX_QUERY, {});
+    const since = session.since;
+    const messages: WalletMessage[] = [];
+    for (const item of mailbox.messages) {
+      const committedAt = Date.parse(item.commitTimestamp);
+      if (!(committedAt > since)) {
+        continue;
+      }
+      session.since = Math.max(session.since, committedAt);
+      try {
+        const message = await this._open(session, wallet, item.contents, committedAt);
+        if (message) {
+          messages.push(message);
+        }
+      } catch (error) {
+        log(`Dropped wallet message ${item.id}: ${error}`, this._logger);
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Decrypt and authenticate a message received by the wallet.
+   *
+   * @returns The message, or null for the copies of the messages sent by the wallet.
+   * @throws Error if the message cannot be decrypted or authenticated.
+   */
+  private async _open(
+    session: MessagingSession,
+    wallet: LocalWallet,
+    contents: string,
+    committedAt: number
+  ): Promise<WalletMessage | null> {
+    const envelope = JSON.parse(decodeBase64(contents)) as MessagingEnvelope;
+    if (envelope.targetPublicKey !== session.key.getPublic(true, "hex")) {
+      return null;
+    }
+    if (!verifyEnvelope(envelope)) {
+      throw new Error("invalid signature");
+    }
+    const { encryptedTargetData } = JSON.parse(decodeBase64(envelope.data)) as { encryptedTargetData: string };
+    const decrypted = decrypt(session.key.getPrivate("hex"), Buffer.from(encryptedTargetData, "base64"));
+    const data = JSON.parse(decodeBase64(Buffer.from(decrypted).toString("utf-8"))) as MessageData;
+    if (data.target !== wallet.address()) {
+      throw new Error(`sent to ${data.target}`);
+    }
+    if (await this._lookupPublicKey(session, data.sender) !== envelope.senderPublicKey) {
+      throw new Error(`not signed with the messaging key of ${data.sender}`);
+    }
+    return {
+      sender: data.sender,
+      target: data.target,
+      text: data.content.text,
+      msgType: data.type,
+      timestamp: Math.floor(committedAt / 1000),
+    };
+  }
+
+  /**
+   * Get the session of a wallet, logging in and registering its messaging key first if needed.
+   */
+  private async _session(wallet: LocalWallet): Promise<MessagingSession> {
+    const address = wallet.address();
+    let session = this._sessions.get(address);
+    if (!session) {
+      session = { token: null, key: messagingKey(wallet), registered: false, since: Date.now() };
+      this._sessions.set(address, session);
+    }
+    if (session.token === null) {
+      session.token = await this._login(wallet);
+    }
+    if (!session.registered) {
+      const publicKey = session.key.getPublic(true, "hex");
+      if (await this._lookupPublicKey(session, address) !== publicKey) {
+        await this._request(session, UPDATE_PUBLIC_KEY_MUTATION, {
+          publicKeyDetails: {
+            publicKey,
+            privacySetting: "EVERYBODY",
+            readReceipt: false,
+            chainId: this._chainId,
+            channelId: MESSAGING_CHANNEL,
+          },
+        });
+        log(`Registered the messaging key of wallet ${address}`, this._logger);
+      }
+      session.registered = true;
+    }
+    return session;
+  }
+
+  private async _login(wallet: LocalWallet): Promise<string> {
+    const headers = { "content-type": "application/json" };
+    const request = {
+      address: wallet.address(),
+      public_key: encodeBase64(Buffer.from(wallet.publicKey, "hex")),
+    };
+    const tokenResponse = await fetch(`${this._authUrl}/request_token`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(request),
+    });
+    if (!tokenResponse.ok) {
+      throw new Error(`Failed to request a wallet messaging token: ${tokenResponse.status}`);
+    }
+    const { payload } = await tokenResponse.json() as { payload: string };
+
+    const [, signature] = wallet.signArbitrary(Buffer.from(payload));
+    const loginResponse = await fetch(`${this._authUrl}/login`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ ...request, signature }),
+    });
+    if (!loginResponse.ok) {
+      throw new Error(`Failed to log in to wallet messaging: ${loginResponse.status}`);
+    }
+    return (await loginResponse.json() as { token: string }).token;
+  }
+
+  private async _lookupPublicKey(session: MessagingSession, address: string): Promise<string | null> {
+    const { publicKey } = await this._request<{ publicKey: { publicKey: string } | null }>(
+      session,
+      PUBLIC_KEY_QUERY,
+      { address, chainId: this._chainId, channelId: MESSAGING_CHANNEL }
+    );
+    return publicKey?.publicKey ?? null;
+  }
+
+  private async _request<T = unknown>(
+    session: MessagingSession,
+    query: string,
+    variables: Record<string, unknown>
+  ): Promise<T> {
+    const response = await fetch(this._serverUrl, {
+      method: "POST",
+      headers: { "content-type": "application/json", Authorization: `Bearer ${session.token}` },
+      body: JSON.stringify({ query, variables }),
+    });
+    if (response.status === 401) {
+      session.token = null;
+      throw new Error("Wallet messaging access token expired: a new one will be requested");
+    }
+    if (!response.ok) {
+      throw new Error(`Wallet messaging request failed: ${response.status}: ${await response.text()}`);
+    }
+    const { data, errors } = await response.json() as { data?: T; errors?: { message: string }[] };
+    if (errors?.length || !data) {
+      throw new Error(`Wallet messaging request failed: ${errors?.map((error) => error.message).join("; ")}`);
+    }
+    return data;
+  }
+}
+
+/**
+ * A ledger wallet holding a secp256k1 private key, such as the `wallet_key`
+ * stored in private_keys.json.
+ *
+ * The wallet signs and broadcasts transactions through a `SigningCosmWasmClient`
+ * connected with its key.
+ */
+export class LocalWallet {
+  private _privateKey: string;
+  private _prefix: string;
+
+  /**
+   * Initialize the wallet.
+   *
+   * @param privateKeyHex - The hex-encoded secp256k1 private key.
+   * @param prefix - The bech32 prefix of the wallet address. Defaults to "fetch".
+   */
+  constructor(privateKeyHex: string, prefix: string = LEDGER_PREFIX) {
+    this._privateKey = privateKeyHex.padStart(64, "0");
+    this._prefix = prefix;
+  }
+
+  /**
+   * Generate a wallet with a random private key.
+   */
+  static generate(prefix: string = LEDGER_PREFIX): LocalWallet {
+    return new LocalWallet(ec.genKeyPair().getPrivate("hex"), prefix);
+  }
+
+  /**
+   * Derive the wallet of an agent from its seed.
+   *
+   * @param seed - The agent seed.
+   * @param index - The key index. Defaults to 0.
+   */
+  static fromSeed(seed: string, index: number = 0): LocalWallet {
+    return new LocalWallet(deriveKeyFromSeed(seed, LEDGER_PREFIX, index).toString("hex"));
+  }
+
+  /**
+   * Derive a wallet from a BIP-39 mnemonic along the standard Cosmos HD path
+   * `m/44'/118'/0'/0/index`, as Keplr and the Cosmos SDK do.
+   *
+   * @param mnemonic - The mnemonic.
+   * @param index - The account index. Defaults to 0.
+   * @param prefix - The bech32 prefix of the wallet address. Defaults to "fetch".
+   */
+  static fromMnemonic(mnemonic: string, index: number = 0, prefix: string = LEDGER_PREFIX): LocalWallet {
+    return new LocalWallet(deriveKeyFromMnemonic(mnemonic, cosmosHdPath(index)).toString("hex"), prefix);
+  }
+
+  get privateKey(): string {
+    return this._privateKey;
+  }
+
+  /**
+   * The hex encoded compressed public key of the wallet.
+   */
+  get publicKey(): string {
+    return ec.keyFromPrivate(this._privateKey, "hex").getPublic(true, "hex");
+  }
+
+  /**
+   * The bech32 address of the wallet, e.g. `fetch1...`.
+   */
+  address(): string {
+    const publicKey = ec.keyFromPrivate(this._privateKey, "hex").getPublic(true, "array");
+    return pubkeyToAddress(encodeSecp256k1Pubkey(Uint8Array.from(publicKey)), this._prefix);
+  }
+
+  /**
+   * Sign arbitrary data with the wallet, as Keplr-like wallets do (ADR-036).
+   *
+   * @returns The base64 encoded serialized sign doc and the base64 encoded signature.
+   */
+  signArbitrary(data: Buffer): [string, string] {
+    const rawSignDoc = Buffer.from(serializeSignDoc(makeArbitrarySignDoc(this.address(), data)));
+    const signature = signDigest(ec.keyFromPrivate(this._privateKey, "hex"), sha256(rawSignDoc));
+    return [encodeBase64(rawSignDoc), encodeBase64(signature)];
+  }
+
+  /**
+   * The signer used by cosmjs clients.
+   */
+  async signer(): Promise<DirectSecp256k1Wallet> {
+    return await DirectSecp256k1Wallet.fromKey(Buffer.from(this._privateKey, "hex"), this._prefix);
+  }
+
+  /**
+   * Connect a signing client for the wallet.
+   *
+   * @param test - Whether to connect to the testnet or mainnet. Defaults to true.
+   * @param rpcUrl - The RPC endpoint. Defaults to the network RPC.
+   * @returns The signing client.
+   */
+  async connect(test: boolean = true, rpcUrl?: string): Promise<SigningCosmWasmClient> {
+    return await SigningCosmWasmClient.connectWithSigner(
+      rpcUrl ?? (test ? TESTNET_RPC : MAINNET_RPC),
+      await this.signer(),
+      { gasPrice: GasPrice.fromString(test ? TESTNET_GAS_PRICE : MAINNET_GAS_PRICE) }
+    );
+  }
+
+  /**
+   * Sign and broadcast messages from the wallet.
+   *
+   * @param client - The signing client connected with the wallet signer.
+   * @param messages - The messages of the transaction.
+   * @param memo - The transaction memo.
+   * @returns The broadcast result.
+   * @throws Error if the transaction fails.
+   */
+  async signAndBroadcast(
+    client: Pick<SigningCosmWasmClient, "signAndBroadcast">,
+    messages: EncodeObject[],
+    memo: string = ""
+  ): Promise<DeliverTxResponse> {
+    const result = await client.signAndBroadcast(this.address(), messages, "auto", memo);
+    if (result.code !== 0) {
+      throw new Error(`Transaction ${result.transactionHash} failed: ${result.rawLog}`);
+    }
+    return result;
+  }
+}
+
+/**
+ * Client sending and receiving wallet messages for an agent's ledger wallet,
+ * through the Fetch.ai wallet messaging service by default.
+ */
+export class WalletMessagingClient {
+  private _wallet: LocalWallet;
+  private _walletAddress: string;
+  private _transport: WalletMessagingTransport;
+  private _logger: Logger;
+  private _pollInterval: number;
+  private _running: boolean = false;
+  private _wakeup: Future<void> | null = null;
+
+  /**
+   * Initialize the wallet messaging client.
+   *
+   * @param wallet - The wallet sending and receiving messages.
+   * @param transport - The transport used to exchange messages. Defaults to the Fetch.ai wallet messaging service on the testnet.
+   * @param logger - The logger to use.
+   * @param pollInterval - The interval between polls for new messages, in seconds.
+   */
+  constructor(
+    wallet: LocalWallet,
+    transport?: WalletMessagingTransport,
+    logger?: Logger,
+    pollInterval: number = WALLET_MESSAGING_POLL_INTERVAL_SECONDS
+  ) {
+    this._wallet = wallet;
+    this._walletAddress = wallet.address();
+    this._logger = logger || getLogger(LogLevel.INFO, "wallet_messaging");
+    this._transport = transport ?? new FetchWalletMessagingTransport(TESTNET_CHAIN_ID, this._logger);
+    this._pollInterval = pollInterval;
+  }
+
+  get walletAddress(): string {
+    return this._walletAddress;
+  }
+
+  /**
+   * Send a message to a wallet.
+   *
+   * @param destination - The wallet address to send the message to.
+   * @param text - The text of the message.
+   * @param msgType - The type of the message. Defaults to 1.
+   */
+  async send(destination: string, text: string, msgType: number = 1): Promise<void> {
+    await this._transport.send(this._wallet, {
+      sender: this._walletAddress,
+      target: destination,
+      text,
+      msgType,
+      timestamp: Math.floor(Date.now() / 1000),
+    });
+  }
+
+  /**
+   * Retrieve the new messages of the wallet and pass them to the handler.
+   *
+   * @param handler - The handler called with each message.
+   */
+  async poll(handler: (message: WalletMessage) => Promise<void>): Promise<void> {
+    let messages: WalletMessage[];
+    try {
+      messages = await this._transport.receive(this._wallet);
+    } catch (error) {
+      log(`Failed to retrieve wallet messages: ${error}`, this._logger);
+      return;
+    }
+    for (const message of messages) {
+      if (message.target !== this._walletAddress) {
+        log(`Dropped wallet message from ${message.sender}: sent to ${message.target}`, this._logger);
+        continue;
+      }
+      try {
+        await handler(message);
+      } catch (error) {
+        log(`Error while handling wallet message from ${message.sender}: ${error}`, this._logger);
+      }
+    }
+  }
+
+  /**
+   * Poll for new messages until `stop()` is called.
+   *
+   * @param handler - The handler called with each message.
+   */
+  async run(handler: (message: WalletMessage) => Promise<void>): Promise<void> {
+    if (this._running) {
+      return;
+    }
+    this._running = true;
+    log("Connecting to wallet messaging", this._logger);
+    while (this._running) {
+      await this.poll(handler);
+      if (!this._running) {
+        break;
+      }
+      this._wakeup = new Future<void>();
+      const timer = setTimeout(() => this._wakeup?.setResult(), this._pollInterval * 1000);
+      await this._wakeup.promise;
+      clearTimeout(timer);
+      this._wakeup = null;
+    }
+  }
+
+  /**
+   * Stop polling for new messages.
+   */
+  stop(): void {
+    this._running = false;
+    this._wakeup?.setResult();
+  }
+}
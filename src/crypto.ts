@@ -1,11 +1,31 @@
-import { randomBytes } from 'crypto';
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  pbkdf2Sync,
+  randomBytes,
+  scryptSync,
+} from 'crypto';
 import { ec as EC } from 'elliptic';
 import { bech32 } from 'bech32';
+import {
+  StdSignDoc,
+  encodeSecp256k1Pubkey,
+  makeSignDoc,
+  pubkeyToAddress,
+  serializeSignDoc,
+} from '@cosmjs/amino';
+import { Bip39, EnglishMnemonic, Slip10, Slip10Curve, stringToPath } from '@cosmjs/crypto';
 import { sha256 } from 'js-sha256';
 import { USER_PREFIX } from './Config';
 
 const MAX_BECH32_LENGTH = 2000;
 const SHA_LENGTH = 256;
+const COSMOS_HD_PATH = "m/44'/118'/0'/0";
+const PAYLOAD_KEY_INFO = 'uagents payload encryption';
+const PUBLIC_KEY_LENGTH = 33;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
 const ec = new EC('secp256k1');
 
 type EncodableValue = string | number | Buffer;
@@ -21,6 +41,71 @@ function encodeBech32(prefix: string, value: Buffer): string {
   return bech32.encode(prefix, words, MAX_BECH32_LENGTH);
 }
 
+/**
+ * Decode a signature, either a bech32 `sig` signature or a base64 encoded one.
+ *
+ * @returns The 64 byte `r || s` signature.
+ * @throws Error if the signature cannot be decoded.
+ */
+function decodeSignature(signature: string): Buffer {
+  let sigData: Buffer | null = null;
+  try {
+    const [sigPrefix, data] = decodeBech32(signature);
+    sigData = sigPrefix === 'sig' ? data : null;
+  } catch {
+    // not bech32 encoded
+  }
+  if (!sigData) {
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(signature)) {
+      throw new Error('Unable to decode signature');
+    }
+    sigData = Buffer.from(signature, 'base64');
+  }
+  if (sigData.length !== 64) {
+    throw new Error('Invalid signature length');
+  }
+  return sigData;
+}
+
+/**
+ * Build the ADR-036 sign doc of arbitrary data, as signed by Keplr-like wallets.
+ *
+ * @param signer - The address of the signer.
+ * @param data - The signed data.
+ */
+function makeArbitrarySignDoc(signer: string, data: Buffer): StdSignDoc {
+  return makeSignDoc(
+    [{ type: 'sign/MsgSignData', value: { signer, data: data.toString('base64') } }],
+    { gas: '0', amount: [] },
+    '',
+    '',
+    0,
+    0
+  );
+}
+
+/**
+ * Check that a sign doc is the ADR-036 sign doc of the given signer and data.
+ */
+function isArbitrarySignDoc(signDoc: any, signer: string, data: Buffer): boolean {
+  const expected = makeArbitrarySignDoc(signer, data);
+  return JSON.stringify(sortKeys(signDoc)) === JSON.stringify(sortKeys(expected));
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeys(value[key])]));
+  }
+  return value;
+}
+
+function sha256Digest(data: Buffer): Buffer {
+  return Buffer.from(sha256.create().update(data).digest());
+}
+
 function generateUserAddress(): string {
   return encodeBech32(USER_PREFIX, randomBytes(32));
 }
@@ -52,6 +137,53 @@ function deriveKeyFromSeed(seed: string, prefix: string, index: number): Buffer
   return Buffer.from(hasher.digest());
 }
 
+/**
+ * Normalize a BIP-39 mnemonic: lower case words separated by single spaces.
+ *
+ * @throws Error if the mnemonic has words outside the English BIP-39 wordlist,
+ * an invalid word count or an invalid checksum.
+ */
+function normalizeMnemonic(mnemonic: string): string {
+  const normalized = mnemonic.normalize('NFKD').trim().toLowerCase().split(/\s+/).join(' ');
+  try {
+    return new EnglishMnemonic(normalized).toString();
+  } catch (error) {
+    throw new Error(`Invalid mnemonic: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Compute the BIP-39 seed of a mnemonic.
+ *
+ * @param mnemonic - The mnemonic.
+ * @param passphrase - The optional BIP-39 passphrase. Defaults to none.
+ * @returns The 64 byte seed.
+ * @throws Error if the mnemonic is invalid.
+ */
+function mnemonicToSeed(mnemonic: string, passphrase: string = ''): Buffer {
+  return pbkdf2Sync(normalizeMnemonic(mnemonic), `mnemonic${passphrase.normalize('NFKD')}`, 2048, 64, 'sha512');
+}
+
+/**
+ * Derive the secp256k1 private key of a BIP-32 path from a BIP-39 mnemonic.
+ *
+ * @param mnemonic - The mnemonic.
+ * @param path - The derivation path, e.g. `m/44'/118'/0'/0/0`.
+ * @returns The private key.
+ * @throws Error if the mnemonic or the path is invalid.
+ */
+function deriveKeyFromMnemonic(mnemonic: string, path: string): Buffer {
+  const { privkey } = Slip10.derivePath(Slip10Curve.Secp256k1, mnemonicToSeed(mnemonic), stringToPath(path));
+  return Buffer.from(privkey);
+}
+
+/**
+ * The path of the key at the given index on the standard Cosmos HD path.
+ */
+function cosmosHdPath(index: number): string {
+  return `${COSMOS_HD_PATH}/${index}`;
+}
+
 function encodeLengthPrefixed(value: EncodableValue): Buffer {
   let encoded: Buffer;
   
@@ -72,13 +204,68 @@ function encodeLengthPrefixed(value: EncodableValue): Buffer {
   return Buffer.concat([prefix, encoded]);
 }
 
+/**
+ * Build the digest an agent signs to authorize its registration on the Almanac
+ * contract.
+ *
+ * @param contractAddress - The address of the Almanac contract.
+ * @param agentAddress - The address of the registered agent.
+ * @param sequence - The registration sequence.
+ * @param walletAddress - The wallet address paying for the registration.
+ */
+function registrationDigest(
+  contractAddress: string,
+  agentAddress: string,
+  sequence: number,
+  walletAddress: string
+): Buffer {
+  const hasher = sha256.create();
+  hasher.update(encodeLengthPrefixed(contractAddress));
+  hasher.update(encodeLengthPrefixed(agentAddress));
+  hasher.update(encodeLengthPrefixed(sequence));
+  hasher.update(encodeLengthPrefixed(walletAddress));
+  return Buffer.from(hasher.digest());
+}
+
+/**
+ * Signs digests on behalf of an agent address.
+ *
+ * `Identity` signs with a key held in memory; other implementations can keep
+ * the key in an HSM, a KMS or a separate signing process.
+ *
+ * @prop {string} address The agent address the signer signs for.
+ * @prop {string} publicKey The hex encoded compressed public key of the address.
+ */
+interface Signer {
+  readonly address: string;
+  readonly publicKey: string;
+
+  /**
+   * Sign a 32 byte digest.
+   *
+   * @returns The bech32 encoded `sig` signature, verifiable with `Identity.verifyDigest`.
+   */
+  signDigest(digest: Buffer): Promise<string>;
+
+  /**
+   * Derive the ECDH shared secret with another secp256k1 public key, used to
+   * decrypt payloads encrypted for the address. Signers without it cannot
+   * receive encrypted payloads.
+   *
+   * @param publicKey - The compressed or uncompressed public key.
+   * @returns The 32 byte x coordinate of the shared point.
+   */
+  deriveSharedSecret?(publicKey: Buffer): Promise<Buffer>;
+}
+
 /**
  * An identity is a cryptographic keypair that can be used to sign messages.
  */
-class Identity {
+class Identity implements Signer {
   private readonly keyPair: EC.KeyPair;
-  private readonly address: string;
+  readonly address: string;
   private readonly pubKey: string;
+  private mnemonic: string | null = null;
 
   /**
    * Create a new identity from a signing key.
@@ -101,6 +288,21 @@ class Identity {
     return new Identity(keyPair);
   }
 
+  /**
+   * Create a new identity from a BIP-39 mnemonic and index.
+   *
+   * The mnemonic is used as the seed of `fromSeed`, so the identity matches the
+   * one of a Python agent using the mnemonic as its seed.
+   *
+   * @throws Error if the mnemonic is not a valid English BIP-39 mnemonic.
+   */
+  static fromMnemonic(mnemonic: string, index: number = 0): Identity {
+    const normalized = normalizeMnemonic(mnemonic);
+    const identity = Identity.fromSeed(normalized, index);
+    identity.mnemonic = normalized;
+    return identity;
+  }
+
   /**
    * Generate a random new identity.
    */
@@ -117,6 +319,45 @@ class Identity {
     return new Identity(keyPair);
   }
 
+  /**
+   * Create an identity from the 24 word mnemonic encoding its private key, as
+   * exported by `toKeyMnemonic`.
+   *
+   * @throws Error if the mnemonic is not a valid 24 word English BIP-39 mnemonic.
+   */
+  static fromKeyMnemonic(mnemonic: string): Identity {
+    const key = Bip39.decode(new EnglishMnemonic(normalizeMnemonic(mnemonic)));
+    if (key.length !== 32) {
+      throw new Error('Invalid mnemonic: a key mnemonic has 24 words');
+    }
+    return Identity.fromString(Buffer.from(key).toString('hex'));
+  }
+
+  /**
+   * Export the mnemonic the identity was created from, to recreate it with
+   * `fromMnemonic` and the same index. Only identities created with
+   * `fromMnemonic` have one: identities created from a seed, a private key or
+   * generated at random are exported with `toKeyMnemonic` instead.
+   *
+   * @throws Error if the identity was not created from a mnemonic.
+   */
+  toMnemonic(): string {
+    if (!this.mnemonic) {
+      throw new Error('Identity was not created from a mnemonic, export it with toKeyMnemonic()');
+    }
+    return this.mnemonic;
+  }
+
+  /**
+   * Export the private key of the identity as a 24 word BIP-39 mnemonic, using
+   * the key as its entropy. Works for every identity, and is recreated with
+   * `fromKeyMnemonic`, not `fromMnemonic`, which derives another key from its
+   * mnemonic.
+   */
+  toKeyMnemonic(): string {
+    return Bip39.encode(Buffer.from(this.privateKey.padStart(64, '0'), 'hex')).toString();
+  }
+
   /**
    * Property to access the private key of the identity.
    */
@@ -135,6 +376,10 @@ class Identity {
     return this.pubKey;
   }
 
+  get publicKey(): string {
+    return this.pubKey;
+  }
+
   /**
    * Sign the provided data.
    */
@@ -145,63 +390,61 @@ class Identity {
     return encodeBech32('sig', canonicalSig);
   }
 
+  /**
+   * Sign the provided data, usually a digest.
+   *
+   * @returns The base64 encoded signature.
+   */
   signB64(data: Buffer): string {
     const signature = this.keyPair.sign(data);
     const canonicalSig = this.getCanonicalSignature(signature);
     return canonicalSig.toString('base64');
   }
 
+  /**
+   * Sign the SHA-256 digest of the provided data.
+   *
+   * @returns The base64 encoded signature, verifiable with `verifyDigest`
+   * and the digest of the data.
+   */
+  signDataB64(data: Buffer): string {
+    return this.signB64(sha256Digest(data));
+  }
+
   /**
    * Sign the provided digest.
    */
-  signDigest(digest: Buffer): string {
-    const signature = this.keyPair.sign(digest);
-    const canonicalSig = this.getCanonicalSignature(signature);
-    return encodeBech32('sig', canonicalSig);
+  async signDigest(digest: Buffer): Promise<string> {
+    return this.sign(digest);
+  }
+
+  /**
+   * Derive the ECDH shared secret with another public key.
+   */
+  async deriveSharedSecret(publicKey: Buffer): Promise<Buffer> {
+    return sharedSecret(this.keyPair, publicKey);
   }
 
   /**
    * Sign the registration data for the Almanac contract.
    */
-  signRegistration(
+  async signRegistration(
     contractAddress: string,
     sequence: number,
     walletAddress: string
-  ): string {
-    const hasher = sha256.create();
-    hasher.update(encodeLengthPrefixed(contractAddress));
-    hasher.update(encodeLengthPrefixed(this.address));
-    hasher.update(encodeLengthPrefixed(sequence));
-    hasher.update(encodeLengthPrefixed(walletAddress));
-    return this.signDigest(Buffer.from(hasher.digest()));
+  ): Promise<string> {
+    return this.sign(registrationDigest(contractAddress, this.address, sequence, walletAddress));
   }
 
+  /**
+   * Sign arbitrary data the way Keplr-like wallets do (ADR-036): the data is
+   * wrapped in an amino sign doc, whose serialization is signed.
+   *
+   * @returns The base64 encoded serialized sign doc and the base64 encoded signature.
+   */
   signArbitrary(data: Buffer): [string, string] {
-    // Create the sign doc
-    const signDoc = {
-      chain_id: '',
-      account_number: '0',
-      sequence: '0',
-      fee: {
-        gas: '0',
-        amount: [],
-      },
-      msgs: [
-        {
-          type: 'sign/MsgSignData',
-          value: {
-            signer: this.address,
-            data: data.toString('base64'),
-          },
-        },
-      ],
-      memo: '',
-    };
-
-    const rawSignDoc = Buffer.from(
-      JSON.stringify(signDoc, Object.keys(signDoc).sort(), 0)
-    );
-    const signature = this.signB64(rawSignDoc);
+    const rawSignDoc = Buffer.from(serializeSignDoc(makeArbitrarySignDoc(this.address, data)));
+    const signature = this.signDataB64(rawSignDoc);
     const encSignDoc = rawSignDoc.toString('base64');
 
     return [encSignDoc, signature];
@@ -209,31 +452,73 @@ class Identity {
 
   /**
    * Verify that the signature is correct for the provided signer address and digest.
+   *
+   * The address is either an agent address or a wallet address such as
+   * `fetch1...`, whose public key is recovered from the signature. The
+   * signature is either a bech32 `sig` signature or a base64 encoded one.
+   *
+   * @throws Error if the address or signature cannot be decoded, or the signature is invalid.
    */
   static verifyDigest(address: string, digest: Buffer, signature: string): void {
-      const [pkPrefix, pkData] = decodeBech32(address);
-      const [sigPrefix, sigData] = decodeBech32(signature);
+    const [prefix, addressData] = decodeBech32(address);
+    const sigData = decodeSignature(signature);
+    const sig = { r: sigData.subarray(0, 32), s: sigData.subarray(32) };
 
-      if (pkPrefix !== 'agent') {
-        throw new Error('Unable to decode agent address');
+    if (prefix === 'agent') {
+      if (!ec.keyFromPublic(addressData).verify(digest, sig)) {
+        throw new Error('Unable to verify signature');
       }
+      return;
+    }
+    if (addressData.length !== 20) {
+      throw new Error('Unable to decode address');
+    }
 
-      if (sigPrefix !== 'sig') {
-        throw new Error('Unable to decode signature');
+    for (let recoveryParam = 0; recoveryParam < 2; recoveryParam++) {
+      let publicKey: Uint8Array;
+      try {
+        publicKey = Uint8Array.from(ec.recoverPubKey(digest, sig, recoveryParam).encode('array', true));
+      } catch {
+        continue;
       }
-
-      if (sigData.length !== 64) {
-        throw new Error('Invalid signature length');
+      if (
+        pubkeyToAddress(encodeSecp256k1Pubkey(publicKey), prefix) === address.toLowerCase() &&
+        ec.keyFromPublic(publicKey).verify(digest, sig)
+      ) {
+        return;
       }
+    }
+    throw new Error('Unable to verify signature');
+  }
 
-      // extract parameters
-      const r = sigData.subarray(0, 32);
-      const s = sigData.subarray(32);
-
-      const key = ec.keyFromPublic(pkData);
-      if (!key.verify(digest, {r, s})) {
-        throw new Error('Unable to verify signature');
+  /**
+   * Verify data signed with `signArbitrary` or by a Keplr-like wallet (ADR-036).
+   *
+   * @param address - The address of the signer, an agent or wallet address.
+   * @param data - The signed data.
+   * @param signDoc - The base64 encoded serialized sign doc returned by
+   * `signArbitrary`, or null to verify against the sign doc a wallet builds
+   * for the address and data.
+   * @param signature - The signature, base64 or bech32 encoded.
+   * @throws Error if the sign doc does not sign the data for the address, or the signature is invalid.
+   */
+  static verifyArbitrary(address: string, data: Buffer, signDoc: string | null, signature: string): void {
+    let rawSignDoc: Buffer;
+    if (signDoc === null) {
+      rawSignDoc = Buffer.from(serializeSignDoc(makeArbitrarySignDoc(address, data)));
+    } else {
+      rawSignDoc = Buffer.from(signDoc, 'base64');
+      let parsed: any;
+      try {
+        parsed = JSON.parse(rawSignDoc.toString('utf-8'));
+      } catch {
+        throw new Error('Unable to decode sign doc');
       }
+      if (!isArbitrarySignDoc(parsed, address, data)) {
+        throw new Error('Sign doc does not match the address and data');
+      }
+    }
+    Identity.verifyDigest(address, sha256Digest(rawSignDoc), signature);
   }
 
   private getCanonicalSignature(signature: EC.Signature): Buffer {
@@ -256,10 +541,197 @@ class Identity {
   }
 }
 
+function sharedSecret(keyPair: EC.KeyPair, publicKey: Buffer): Buffer {
+  return Buffer.from(keyPair.derive(ec.keyFromPublic(publicKey).getPublic()).toArray('be', 32));
+}
+
+function payloadKey(secret: Buffer, ephemeralPublicKey: Buffer): Buffer {
+  return Buffer.from(hkdfSync('sha256', secret, ephemeralPublicKey, PAYLOAD_KEY_INFO, 32));
+}
+
+/**
+ * Encrypt a payload for an agent address.
+ *
+ * The key is derived with HKDF-SHA256 from the ECDH shared secret of a fresh
+ * ephemeral key and the public key of the address, and the payload is
+ * encrypted with AES-256-GCM under it. Only the owner of the address can
+ * derive the key again.
+ *
+ * @param address - The agent address of the recipient.
+ * @param plaintext - The payload.
+ * @param associatedData - Data authenticated along with the payload.
+ * @returns The ephemeral public key, IV, tag and ciphertext, concatenated.
+ * @throws Error if the address is not an agent address.
+ */
+function encryptForAddress(address: string, plaintext: Buffer, associatedData: Buffer): Buffer {
+  const [prefix, publicKey] = decodeBech32(address);
+  if (prefix !== 'agent') {
+    throw new Error('Payloads can only be encrypted for agent addresses');
+  }
+  const ephemeral = ec.genKeyPair();
+  const ephemeralPublicKey = Buffer.from(ephemeral.getPublic(true, 'array'));
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', payloadKey(sharedSecret(ephemeral, publicKey), ephemeralPublicKey), iv);
+  cipher.setAAD(associatedData);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([ephemeralPublicKey, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypt a payload encrypted with `encryptForAddress` for the address of a signer.
+ *
+ * @param signer - The signer of the recipient address.
+ * @param data - The encrypted payload.
+ * @param associatedData - The data authenticated along with the payload.
+ * @returns The payload.
+ * @throws Error if the signer cannot derive shared secrets.
+ * @throws DecryptionError if the payload was not encrypted for the signer or was tampered with.
+ */
+async function decryptWithSigner(signer: Signer, data: Buffer, associatedData: Buffer): Promise<Buffer> {
+  if (!signer.deriveSharedSecret) {
+    throw new Error(`The signer of ${signer.address} is unable to decrypt payloads`);
+  }
+  if (data.length < PUBLIC_KEY_LENGTH + IV_LENGTH + TAG_LENGTH) {
+    throw new DecryptionError('Unable to decrypt payload: too short');
+  }
+  const ephemeralPublicKey = data.subarray(0, PUBLIC_KEY_LENGTH);
+  const iv = data.subarray(PUBLIC_KEY_LENGTH, PUBLIC_KEY_LENGTH + IV_LENGTH);
+  const tag = data.subarray(PUBLIC_KEY_LENGTH + IV_LENGTH, PUBLIC_KEY_LENGTH + IV_LENGTH + TAG_LENGTH);
+  let key: Buffer;
+  try {
+    key = payloadKey(await signer.deriveSharedSecret(ephemeralPublicKey), ephemeralPublicKey);
+  } catch {
+    throw new DecryptionError('Unable to decrypt payload: invalid ephemeral key');
+  }
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAAD(associatedData);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(data.subarray(PUBLIC_KEY_LENGTH + IV_LENGTH + TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new DecryptionError('Unable to decrypt payload: wrong recipient or corrupted data');
+  }
+}
+
+/**
+ * Data encrypted with AES-256-GCM under a key derived from a passphrase with scrypt.
+ * Binary fields are base64-encoded.
+ */
+type EncryptedData = {
+  cipher: 'aes-256-gcm';
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+};
+
+/**
+ * Raised when encrypted data cannot be decrypted, usually because the
+ * passphrase is wrong.
+ */
+class DecryptionError extends Error {
+  constructor(message: string = 'Unable to decrypt data: wrong passphrase or corrupted data') {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+function isEncryptedData(value: any): value is EncryptedData {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    value.cipher === 'aes-256-gcm' &&
+    value.kdf === 'scrypt' &&
+    typeof value.ciphertext === 'string'
+  );
+}
+
+/**
+ * An encryption key derived from a passphrase.
+ *
+ * Deriving the key is deliberately slow, so a key is derived once per salt and
+ * reused for every encryption; each encryption uses a fresh IV.
+ */
+class PassphraseKey {
+  readonly salt: Buffer;
+  private _key: Buffer;
+
+  private constructor(salt: Buffer, key: Buffer) {
+    this.salt = salt;
+    this._key = key;
+  }
+
+  /**
+   * Derive the key of a passphrase.
+   *
+   * @param passphrase - The passphrase.
+   * @param salt - The salt. Defaults to a random salt.
+   */
+  static derive(passphrase: string, salt: Buffer = randomBytes(16)): PassphraseKey {
+    return new PassphraseKey(salt, scryptSync(passphrase, salt, 32));
+  }
+
+  /**
+   * Derive the key of a passphrase used to encrypt the given data.
+   */
+  static forData(passphrase: string, data: EncryptedData): PassphraseKey {
+    return PassphraseKey.derive(passphrase, Buffer.from(data.salt, 'base64'));
+  }
+
+  encrypt(plaintext: string): EncryptedData {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this._key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return {
+      cipher: 'aes-256-gcm',
+      kdf: 'scrypt',
+      salt: this.salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+  }
+
+  /**
+   * Decrypt data encrypted with this key.
+   *
+   * @throws DecryptionError if the data was encrypted with another key or was altered.
+   */
+  decrypt(data: EncryptedData): string {
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', this._key, Buffer.from(data.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(data.tag, 'base64'));
+      return Buffer.concat([
+        decipher.update(Buffer.from(data.ciphertext, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8');
+    } catch {
+      throw new DecryptionError();
+    }
+  }
+}
+
+export type { EncryptedData, Signer };
+
 export {
   Identity,
+  DecryptionError,
+  PassphraseKey,
+  isEncryptedData,
+  cosmosHdPath,
+  decryptWithSigner,
+  deriveKeyFromMnemonic,
   deriveKeyFromSeed,
+  mnemonicToSeed,
+  normalizeMnemonic,
   isUserAddress,
   generateUserAddress,
-  encodeLengthPrefixed
+  encodeLengthPrefixed,
+  encryptForAddress,
+  makeArbitrarySignDoc,
+  registrationDigest
 };
\ No newline at end of file
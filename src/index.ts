@@ -1,12 +1,15 @@
 export * from "util";
 export * from "./Agent";
 export * from "./ASGI";
+export * from "./Bureau";
 export * from "./Communication";
 export * from "./Config";
 export * from "./crypto";
 export * from "./Context";
 export * from "./Dispatch";
+export * from "./Encoding";
 export * from "./Envelope";
+export * from "./Keystore";
 export * from "./Mailbox";
 export * from "./model";
 export * from "./Protocol";
@@ -15,3 +18,4 @@ export * from "./Registration";
 export * from "./Resolver";
 export * from "./Storage";
 export * from "./Wallet";
+export { Dispenser } from "./Communication";
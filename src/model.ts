@@ -1,10 +1,6 @@
 import { z, ZodSchema } from "zod";
 import crypto from "crypto";
-import {
-  extendZodWithOpenApi,
-  createSchema,
-  CreateSchemaOptions,
-} from "zod-openapi";
+import { extendZodWithOpenApi, createSchema } from "zod-openapi";
 
 extendZodWithOpenApi(z);
 
@@ -57,21 +53,27 @@ export class Model<T extends Record<string, any>> {
     return this.schema.parse(data) as T;
   }
 
-  static buildSchemaDigest(schemaOrModel: ZodSchema | Model<any>): string {
+  /**
+   * Build the JSON schema of a model, with nested components under "definitions"
+   * as pydantic does.
+   * @param schemaOrModel the zod schema or model to describe
+   * @returns the JSON schema object
+   */
+  static buildSchema(schemaOrModel: ZodSchema | Model<any>): Record<string, any> {
     if (schemaOrModel instanceof Model) {
       schemaOrModel = schemaOrModel.schema;
     }
 
-    let ops: CreateSchemaOptions;
     const { components, schema: schemaObj } = createSchema(schemaOrModel, {
       componentRefPath: "#/definitions/",
     });
-    console.log(schemaObj, components);
-    let schemaJSON = components
+    return components
       ? { definitions: { ...components }, ...schemaObj }
       : schemaObj;
-    const schemaStr = pydanticStringify(schemaJSON);
-    console.log(schemaStr);
+  }
+
+  static buildSchemaDigest(schemaOrModel: ZodSchema | Model<any>): string {
+    const schemaStr = pydanticStringify(Model.buildSchema(schemaOrModel));
 
     const digest = crypto
       .createHash("sha256")
@@ -1,5 +1,6 @@
 import { Context } from "./Context";
 import { Model } from "./model";
+import { WalletMessage } from "./Wallet";
 
 export type IntervalCallback = (context: Context) => Promise<void>;
 export type MessageCallback = (
@@ -8,9 +9,9 @@ export type MessageCallback = (
   recoveredMessage: any
 ) => Promise<void>;
 export type EventCallback = (context: Context) => Promise<void>;
-export type WalletMessageCallback = (context: Context, message: any) => Promise<void>;
+export type WalletMessageCallback = (context: Context, message: WalletMessage) => Promise<void>;
 
-export type RestReturnType = Model<{ [key: string]: any }>;
+export type RestReturnType = { [key: string]: any };
 export type RestGetHandler = (context: Context) => Promise<RestReturnType | null>;
 export type RestPostHandler = (
   context: Context,
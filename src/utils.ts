@@ -45,3 +45,60 @@ export function log(message: string, logger?: Logger) {
       break;
   }
 }
+
+/**
+ * Generate a backoff time starting from 0.064 seconds and doubling with every
+ * retry, limited to ~131 seconds by default.
+ *
+ * @param retry - The number of retries made so far.
+ * @param baseSeconds - The backoff time of the first retry.
+ * @param maxSeconds - The maximum backoff time.
+ * @returns The backoff time in seconds.
+ */
+export function generateBackoffTime(
+  retry: number,
+  baseSeconds: number = 0.064,
+  maxSeconds: number = 131.072
+): number {
+  return Math.min(baseSeconds * 2 ** retry, maxSeconds);
+}
+
+/**
+ * A placeholder for a result that is set later, similar to an asyncio Future.
+ */
+export class Future<T> {
+  readonly promise: Promise<T>;
+  private _resolve!: (value: T) => void;
+  private _reject!: (reason?: any) => void;
+  private _done: boolean = false;
+
+  constructor() {
+    this.promise = new Promise<T>((resolve, reject) => {
+      this._resolve = resolve;
+      this._reject = reject;
+    });
+  }
+
+  /**
+   * Whether a result or an exception has been set.
+   */
+  get done(): boolean {
+    return this._done;
+  }
+
+  setResult(value: T): void {
+    if (this._done) {
+      return;
+    }
+    this._done = true;
+    this._resolve(value);
+  }
+
+  setException(error: any): void {
+    if (this._done) {
+      return;
+    }
+    this._done = true;
+    this._reject(error);
+  }
+}
@@ -0,0 +1,322 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import http from "http";
+import { AddressInfo } from "net";
+import { z } from "zod";
+import { Agent } from "../src/Agent";
+import { EndpointHealth, sendExchangeEnvelope } from "../src/Communication";
+import { Context } from "../src/Context";
+import { Identity } from "../src/crypto";
+import { Envelope, ReplayCache, ReplayError, generateNonce } from "../src/Envelope";
+import { Model } from "../src/model";
+import { AgentRegistrationPolicy } from "../src/Registration";
+import { RulesBasedResolver } from "../src/Resolver";
+import { INTERNAL_KEY_PREFIX, MemoryStorage } from "../src/Storage";
+import { DeliveryStatus, MsgStatus } from "../src/types";
+
+class NoopRegistrationPolicy extends AgentRegistrationPolicy {
+  async register(): Promise<void> {}
+}
+
+const Ping = new Model(z.object({ text: z.string() }).openapi({ title: "Ping" }));
+const Pong = new Model(z.object({ text: z.string() }).openapi({ title: "Pong" }));
+
+async function buildEnvelope(sender: Identity, target: string, body: object, expires?: number): Promise<Envelope> {
+  const env = new Envelope({
+    version: 1,
+    sender: sender.getAddress,
+    target,
+    session: "4c1e9a5e-1c4b-4f2c-9f57-2d1b7e1d6b3a",
+    schemaDigest: Model.buildSchemaDigest(Ping),
+    expires: expires ?? Math.floor(Date.now() / 1000) + 30,
+    nonce: generateNonce(),
+  });
+  env.encodePayload(JSON.stringify(body));
+  await env.sign(sender);
+  return env;
+}
+
+describe("ASGIServer", () => {
+  const sender = Identity.generate();
+  const agent = new Agent({
+    seed: "asgi server test seed",
+    port: 0,
+    resolver: new RulesBasedResolver({}),
+    storage: new MemoryStorage(),
+    registrationPolicy: new NoopRegistrationPolicy(),
+  });
+  const received: any[] = [];
+  let url: string;
+
+  agent.onMessage(Ping)(async (ctx: Context, from: string, msg: any) => {
+    received.push(msg);
+    await ctx.sendRaw(from, Model.buildSchemaDigest(Pong), JSON.stringify({ text: `re: ${msg.text}` }));
+  });
+
+  const Status = new Model(z.object({ status: z.string() }).openapi({ title: "Status" }));
+  const Echo = new Model(z.object({ value: z.number() }).openapi({ title: "Echo" }));
+
+  agent.onRestGet("/status", Status)(async () => ({ status: "ok" }));
+  agent.onRestGet("/broken", Status)(async () => ({ unexpected: true }));
+  agent.onRestPost("/echo", Echo, Echo)(async (ctx: Context, data: any) => ({ value: data.value * 2 }));
+
+  beforeAll(async () => {
+    await agent.setup();
+    url = `http://127.0.0.1:${agent.port}/submit`;
+  });
+
+  afterAll(async () => {
+    await agent.stop();
+  });
+
+  const post = (env: Envelope, headers: Record<string, string> = {}) =>
+    fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(env),
+    });
+
+  it("should dispatch submitted envelopes", async () => {
+    const response = await post(await buildEnvelope(sender, agent.address, { text: "hello" }));
+
+    expect(response.status).toBe(200);
+    expect(received).toContainEqual({ text: "hello" });
+  });
+
+  it("should reject expired envelopes", async () => {
+    const expires = Math.floor(Date.now() / 1000) - 10;
+    const response = await post(await buildEnvelope(sender, agent.address, { text: "late" }, expires));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: "Envelope expired" });
+  });
+
+  it("should acknowledge replayed envelopes without handling them again", async () => {
+    const env = await buildEnvelope(sender, agent.address, { text: "once" });
+    expect((await post(env)).status).toBe(200);
+
+    expect((await post(env)).status).toBe(200);
+    const response = await post(env, { "x-uagents-connection": "sync" });
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ error: "Envelope already received" });
+    expect(received.filter((msg) => msg.text === "once")).toHaveLength(1);
+  });
+
+  it("should report retries after a lost response as delivered", async () => {
+    // forwards envelopes to the agent, but drops the response to the first one
+    let forwarded = 0;
+    const proxy = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", async () => {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "content-type": req.headers["content-type"] ?? "" },
+          body: Buffer.concat(chunks),
+        });
+        if (forwarded++ === 0) {
+          req.socket.destroy();
+          return;
+        }
+        res.writeHead(response.status, { "content-type": "application/json" });
+        res.end(await response.text());
+      });
+    });
+    await new Promise<void>((resolve) => proxy.listen(0, resolve));
+    const proxyUrl = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}/submit`;
+
+    try {
+      const env = await buildEnvelope(sender, agent.address, { text: "lost response" });
+      const result = await sendExchangeEnvelope(
+        env,
+        [proxyUrl],
+        false,
+        { maxAttempts: 2, backoffSeconds: 0.01, maxBackoffSeconds: 0.01, jitter: 0 },
+        new EndpointHealth()
+      ) as MsgStatus;
+
+      expect(forwarded).toBe(2);
+      expect(result.status).toEqual(DeliveryStatus.DELIVERED);
+      expect(received.filter((msg) => msg.text === "lost response")).toHaveLength(1);
+    } finally {
+      await new Promise((resolve) => proxy.close(resolve));
+    }
+  });
+
+  it("should reject envelopes with invalid signatures", async () => {
+    const env = await buildEnvelope(sender, agent.address, { text: "tampered" });
+    env.encodePayload(JSON.stringify({ text: "changed" }));
+    const response = await post(env);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: "Signature verification failed" });
+  });
+
+  it("should reject envelopes for unknown destinations", async () => {
+    const response = await post(await buildEnvelope(sender, Identity.generate().getAddress, { text: "hi" }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should answer sync envelopes with the response envelope", async () => {
+    const response = await post(
+      await buildEnvelope(sender, agent.address, { text: "sync" }),
+      { "x-uagents-connection": "sync" }
+    );
+
+    expect(response.status).toBe(200);
+    const env = Envelope.modelValidate(await response.json());
+    expect(env.sender).toEqual(agent.address);
+    expect(env.target).toEqual(sender.getAddress);
+    expect(env.nonce).toBeDefined();
+    expect(env.schemaDigest).toEqual(Model.buildSchemaDigest(Pong));
+    expect(JSON.parse(env.decodePayload())).toEqual({ text: "re: sync" });
+  });
+
+  it("should return 404 for unknown paths", async () => {
+    const response = await fetch(url.replace("/submit", "/unknown"));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should serve REST GET handlers", async () => {
+    const response = await fetch(url.replace("/submit", "/status"));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "ok" });
+  });
+
+  it("should validate REST POST bodies and responses", async () => {
+    const echo = (body: any) =>
+      fetch(url.replace("/submit", "/echo"), {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    const ok = await echo({ value: 21 });
+    expect(ok.status).toBe(200);
+    expect(await ok.json()).toEqual({ value: 42 });
+
+    const invalid = await echo({ value: "21" });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({ error: "Invalid request body" });
+
+    const broken = await fetch(url.replace("/submit", "/broken"));
+    expect(broken.status).toBe(500);
+  });
+
+  it("should return 405 for REST paths with other methods", async () => {
+    const response = await fetch(url.replace("/submit", "/status"), { method: "POST" });
+
+    expect(response.status).toBe(405);
+  });
+
+  it("should serve the agent info", async () => {
+    const response = await fetch(url.replace("/submit", "/agent_info"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("access-control-allow-origin")).toEqual("*");
+    const info = await response.json();
+    expect(info.agent_address).toEqual(agent.address);
+    expect(info.protocols).toEqual(Object.keys(agent.protocols));
+  });
+
+  it("should serve the protocol manifests", async () => {
+    const response = await fetch(url.replace("/submit", "/protocols"));
+
+    expect(response.status).toBe(200);
+    const { protocols } = await response.json();
+    expect(protocols.map((p: any) => p.metadata.digest)).toEqual(Object.keys(agent.protocols));
+  });
+
+  it("should page and filter the message history", async () => {
+    const other = Identity.generate();
+    await post(await buildEnvelope(other, agent.address, { text: "first" }));
+    await post(await buildEnvelope(other, agent.address, { text: "second" }));
+    const messages = (query: string) => fetch(url.replace("/submit", `/messages?${query}`));
+
+    const response = await messages(`sender=${other.getAddress}&limit=1&offset=1`);
+    expect(response.status).toBe(200);
+    const page = await response.json();
+    expect(page.total).toBe(2);
+    expect(page.envelopes).toHaveLength(1);
+    expect(page.envelopes[0]).toMatchObject({
+      sender: other.getAddress,
+      target: agent.address,
+      schema_digest: Model.buildSchemaDigest(Ping),
+    });
+    expect(JSON.parse(page.envelopes[0].payload)).toEqual({ text: "second" });
+
+    const invalid = await messages("limit=-1");
+    expect(invalid.status).toBe(400);
+  });
+
+  it("should only serve inspector endpoints for GET", async () => {
+    const response = await fetch(url.replace("/submit", "/agent_info"), { method: "POST" });
+
+    expect(response.status).toBe(405);
+  });
+});
+
+describe("ReplayCache", () => {
+  const sender = Identity.generate();
+  const target = Identity.generate().getAddress;
+
+  it("should reject duplicate and expired envelopes", async () => {
+    const cache = new ReplayCache();
+    const env = await buildEnvelope(sender, target, {});
+    cache.check(env);
+
+    expect(() => cache.check(env)).toThrow(ReplayError);
+    expect(() => cache.check(env)).toThrow("already received");
+    expect(() => cache.check(env)).toThrow(expect.objectContaining({ duplicate: true }));
+    const expired = await buildEnvelope(sender, target, {}, Math.floor(Date.now() / 1000) - 1);
+    expect(() => cache.check(expired)).toThrow("expired");
+  });
+
+  it("should tell senders apart and accept envelopes without a nonce", async () => {
+    const cache = new ReplayCache();
+    const env = await buildEnvelope(sender, target, {});
+    cache.check(env);
+    cache.check(new Envelope({ ...env, sender: Identity.generate().getAddress }));
+
+    const unnumbered = new Envelope({ ...env, nonce: undefined });
+    cache.check(unnumbered);
+    cache.check(unnumbered);
+    expect(cache.size).toBe(2);
+  });
+
+  it("should keep the received envelopes in storage", async () => {
+    const storage = new MemoryStorage();
+    const env = await buildEnvelope(sender, target, {});
+    new ReplayCache(storage).check(env);
+
+    expect(storage.keys()).toEqual([`${INTERNAL_KEY_PREFIX}replay/${sender.getAddress}:${env.nonce}`]);
+    expect(() => new ReplayCache(storage).check(env)).toThrow(ReplayError);
+  });
+
+  it("should evict the oldest envelopes when full", async () => {
+    const cache = new ReplayCache(undefined, 2);
+    const now = Math.floor(Date.now() / 1000);
+    const first = await buildEnvelope(sender, target, {}, now + 30);
+    const second = await buildEnvelope(sender, target, {}, now + 30);
+    cache.check(first);
+    const third = await buildEnvelope(sender, target, {}, now + 30);
+    cache.check(second);
+    cache.check(third);
+
+    expect(cache.size).toBe(2);
+    cache.check(first);
+    expect(() => cache.check(third)).toThrow(ReplayError);
+  });
+
+  it("should forget evicted envelopes in storage", async () => {
+    const storage = new MemoryStorage();
+    const cache = new ReplayCache(storage, 2);
+    for (let i = 0; i < 3; i++) {
+      cache.check(await buildEnvelope(sender, target, {}));
+    }
+
+    expect(storage.keys()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import http from "http";
+import { AddressInfo } from "net";
+import { z } from "zod";
+import { Agent } from "../src/Agent";
+import { Context } from "../src/Context";
+import { dispatcher } from "../src/Dispatch";
+import { Model } from "../src/model";
+import { Protocol } from "../src/Protocol";
+import * as Network from "../src/Network";
+import {
+  AgentRegistrationPolicy,
+  AlmanacApiRegistrationPolicy,
+  LedgerBasedRegistrationPolicy,
+} from "../src/Registration";
+import { KeyValueStore } from "../src/Storage";
+import { LocalWallet } from "../src/Wallet";
+
+const Greeting = new Model(
+  z.object({ text: z.string() }).openapi({ title: "Greeting" })
+);
+
+const Farewell = new Model(
+  z.object({ text: z.string() }).openapi({ title: "Farewell" })
+);
+
+class NoopRegistrationPolicy extends AgentRegistrationPolicy {
+  registrations = 0;
+
+  async register(): Promise<void> {
+    this.registrations++;
+  }
+}
+
+describe("Agent", () => {
+  beforeEach(() => {
+    jest.spyOn(LocalWallet.prototype, "connect").mockRejectedValue(new Error("ledger unavailable"));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should derive its address and name from the seed", () => {
+    const agent = new Agent({ seed: "agent test seed", storage: new KeyValueStore("agent_test") });
+    const sameAgent = new Agent({ seed: "agent test seed", storage: new KeyValueStore("agent_test") });
+
+    expect(agent.address).toEqual(sameAgent.address);
+    expect(agent.address.startsWith("agent1")).toBe(true);
+    expect(agent.name).toEqual(agent.address.slice(0, 16));
+    expect(agent.identifier).toEqual(`test-agent://${agent.address}`);
+  });
+
+  it("should dispatch messages to registered handlers", async () => {
+    const agent = new Agent({ seed: "agent message seed", storage: new KeyValueStore("agent_test") });
+    const sender = new Agent({ seed: "agent sender seed", storage: new KeyValueStore("agent_test") });
+    const received: any[] = [];
+
+    agent.onMessage(Greeting)(async (ctx: Context, from: string, msg: any) => {
+      received.push([from, msg]);
+    });
+
+    await dispatcher.dispatchMsg(
+      sender.address,
+      agent.address,
+      Model.buildSchemaDigest(Greeting),
+      JSON.stringify({ text: "hello" }),
+      "session"
+    );
+
+    expect(received).toEqual([[sender.address, { text: "hello" }]]);
+  });
+
+  it("should route messages to included protocols", async () => {
+    const agent = new Agent({ seed: "agent protocol seed", storage: new KeyValueStore("agent_test") });
+    const protocol = new Protocol("farewell", "1.0.0");
+    const handler = jest.fn(async (ctx: Context, from: string, msg: any) => {});
+
+    protocol.onMessage(Farewell)(handler);
+    agent.include(protocol);
+
+    await agent.handleMessage(
+      agent.address,
+      Model.buildSchemaDigest(Farewell),
+      JSON.stringify({ text: "bye" }),
+      "session"
+    );
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(Object.keys(agent.protocols)).toContain(protocol.digest);
+  });
+
+  it("should queue messages without waiting for their handlers", async () => {
+    const agent = new Agent({ seed: "agent queue seed", storage: new KeyValueStore("agent_test") });
+    const received: string[] = [];
+    let release = () => {};
+    const gate = new Promise<void>((resolve) => (release = resolve));
+
+    agent.onMessage(Greeting)(async (ctx: Context, from: string, msg: any) => {
+      if (msg.text === "first") await gate;
+      received.push(msg.text);
+    });
+
+    for (const text of ["first", "second"]) {
+      await agent.handleMessage(
+        agent.address,
+        Model.buildSchemaDigest(Greeting),
+        JSON.stringify({ text }),
+        "session"
+      );
+    }
+    expect(received).toEqual([]);
+
+    release();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(received).toEqual(["first", "second"]);
+  });
+
+  it("should reject protocols with duplicate handlers", () => {
+    const agent = new Agent({ seed: "agent duplicate seed", storage: new KeyValueStore("agent_test") });
+    const protocol = new Protocol("greeting");
+
+    agent.onMessage(Greeting)(async () => {});
+    protocol.onMessage(Greeting)(async () => {});
+
+    expect(() => agent.include(protocol)).toThrow("duplicate message handler");
+  });
+
+  it("should run handlers through the lifecycle and stop gracefully", async () => {
+    const registrationPolicy = new NoopRegistrationPolicy();
+    const agent = new Agent({
+      seed: "agent lifecycle seed",
+      port: 0,
+      storage: new KeyValueStore("agent_test"),
+      registrationPolicy,
+    });
+    const events: string[] = [];
+    let ticks = 0;
+
+    agent.onEvent("startup")(async () => {
+      events.push("startup");
+    });
+    agent.onEvent("shutdown")(async () => {
+      events.push("shutdown");
+    });
+    agent.onInterval(0.01)(async () => {
+      ticks++;
+    });
+
+    const running = agent.runAsync();
+    for (let waited = 0; ticks < 2 && waited < 2000; waited += 10) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(agent.running).toBe(true);
+
+    await agent.stop();
+    await running;
+    const ticksAtStop = ticks;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(events).toEqual(["startup", "shutdown"]);
+    expect(registrationPolicy.registrations).toBe(1);
+    expect(ticksAtStop).toBeGreaterThan(1);
+    expect(ticks).toBe(ticksAtStop);
+    expect(agent.running).toBe(false);
+  });
+
+  it("should register on the Almanac contract with its connected ledger", async () => {
+    const ledger = {} as Awaited<ReturnType<LocalWallet["connect"]>>;
+    const contract = {} as Network.AlmanacContract;
+    jest.spyOn(LocalWallet.prototype, "connect").mockResolvedValue(ledger);
+    jest.spyOn(Network, "getAlmanacContract").mockResolvedValue(contract);
+    jest.spyOn(AlmanacApiRegistrationPolicy.prototype, "register").mockResolvedValue();
+    const ledgerRegistration = jest.spyOn(LedgerBasedRegistrationPolicy.prototype, "register").mockResolvedValue();
+    const agent = new Agent({ seed: "agent ledger seed", port: 0, storage: new KeyValueStore("agent_test") });
+    let startupLedger: unknown;
+
+    agent.onEvent("startup")(async (ctx: Context) => {
+      startupLedger = ctx.ledger;
+    });
+
+    try {
+      await agent.setup();
+      expect(startupLedger).toBe(ledger);
+      expect(ledgerRegistration).toHaveBeenCalledTimes(1);
+      expect(ledgerRegistration.mock.calls[0]?.[0]).toEqual(agent.address);
+    } finally {
+      await agent.stop();
+    }
+  });
+
+  it("should roll back its startup when the port is in use", async () => {
+    const blocker = http.createServer();
+    await new Promise<void>((resolve) => blocker.listen(0, resolve));
+    const port = (blocker.address() as AddressInfo).port;
+    const agent = new Agent({
+      seed: "agent occupied port seed",
+      port,
+      storage: new KeyValueStore("agent_test"),
+      registrationPolicy: new NoopRegistrationPolicy(),
+    });
+    const signalListeners = process.listenerCount("SIGINT");
+
+    try {
+      await expect(agent.runAsync()).rejects.toThrow("EADDRINUSE");
+      expect(agent.running).toBe(false);
+      expect(process.listenerCount("SIGINT")).toBe(signalListeners);
+    } finally {
+      await new Promise((resolve) => blocker.close(resolve));
+    }
+
+    const running = agent.runAsync();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(agent.running).toBe(true);
+    await agent.stop();
+    await running;
+  });
+});
@@ -0,0 +1,179 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import http from "http";
+import { AddressInfo } from "net";
+import { z } from "zod";
+import { Agent } from "../src/Agent";
+import { Bureau } from "../src/Bureau";
+import { Context } from "../src/Context";
+import { Identity, Signer } from "../src/crypto";
+import { Envelope } from "../src/Envelope";
+import { Model } from "../src/model";
+import { AgentRegistrationPolicy, BatchRegistrationPolicy } from "../src/Registration";
+import { RulesBasedResolver } from "../src/Resolver";
+import { KeyValueStore } from "../src/Storage";
+import { AgentInfo } from "../src/types";
+
+class NoopRegistrationPolicy extends AgentRegistrationPolicy {
+  async register(): Promise<void> {
+    throw new Error("agents in a bureau must not register themselves");
+  }
+}
+
+class RecordingBatchPolicy extends BatchRegistrationPolicy {
+  agents: AgentInfo[] = [];
+  registrations = 0;
+
+  addAgent(agentInfo: AgentInfo, signer: Signer): void {
+    expect(signer.address).toEqual(agentInfo.agent_address);
+    this.agents = this.agents
+      .filter((agent) => agent.agent_address !== agentInfo.agent_address)
+      .concat(agentInfo);
+  }
+
+  clear(): void {
+    this.agents = [];
+  }
+
+  async register(): Promise<void> {
+    this.registrations++;
+  }
+}
+
+const Note = new Model(z.object({ text: z.string() }).openapi({ title: "Note" }));
+
+function buildAgent(seed: string, endpoint?: string): Agent {
+  return new Agent({
+    seed,
+    endpoint,
+    resolver: new RulesBasedResolver({}),
+    storage: new KeyValueStore("bureau_test"),
+    registrationPolicy: new NoopRegistrationPolicy(),
+  });
+}
+
+async function buildEnvelope(sender: Identity, target: string, text: string): Promise<string> {
+  const env = new Envelope({
+    version: 1,
+    sender: sender.getAddress,
+    target,
+    session: "5c0d1f6e-2b7a-4e3c-8d9f-1a2b3c4d5e6f",
+    schemaDigest: Model.buildSchemaDigest(Note),
+    expires: Math.floor(Date.now() / 1000) + 30,
+  });
+  env.encodePayload(JSON.stringify({ text }));
+  await env.sign(sender);
+  return JSON.stringify(env.toJSON());
+}
+
+describe("Bureau", () => {
+  const policy = new RecordingBatchPolicy();
+  const alice = buildAgent("bureau alice seed");
+  const bob = buildAgent("bureau bob seed", "http://bob.example/submit");
+  const bureau = new Bureau({
+    port: 0,
+    endpoint: "http://bureau.example/submit",
+    agents: [alice, bob],
+    registrationPolicy: policy,
+  });
+  const received: Record<string, string[]> = { alice: [], bob: [] };
+
+  alice.onEvent("startup")(async (ctx: Context) => {
+    await ctx.sendRaw(bob.address, Model.buildSchemaDigest(Note), JSON.stringify({ text: "hello bob" }));
+  });
+  alice.onMessage(Note)(async (ctx: Context, from: string, msg: any) => {
+    received.alice!.push(msg.text);
+  });
+  bob.onMessage(Note)(async (ctx: Context, from: string, msg: any) => {
+    received.bob!.push(msg.text);
+  });
+
+  beforeAll(async () => {
+    await bureau.setup();
+  });
+
+  afterAll(async () => {
+    await bureau.stop();
+  });
+
+  it("should register all agents with one batch registration", () => {
+    expect(policy.agents.map((info) => info.agent_address)).toEqual([alice.address, bob.address]);
+    expect(policy.registrations).toBe(1);
+  });
+
+  it("should give the bureau endpoints to agents without their own", () => {
+    expect(alice.endpoints).toEqual([{ url: "http://bureau.example/submit", weight: 1 }]);
+    expect(bob.endpoints).toEqual([{ url: "http://bob.example/submit", weight: 1 }]);
+  });
+
+  it("should route messages between its agents in memory", () => {
+    expect(received.bob).toContain("hello bob");
+  });
+
+  it("should serve all agents on a single port", async () => {
+    expect(alice.port).toEqual(bureau.port);
+    expect(bob.port).toEqual(bureau.port);
+
+    const sender = Identity.generate();
+    for (const [agent, text] of [[alice, "to alice"], [bob, "to bob"]] as const) {
+      const response = await fetch(`http://127.0.0.1:${bureau.port}/submit`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: await buildEnvelope(sender, agent.address, text),
+      });
+      expect(response.status).toBe(200);
+    }
+
+    expect(received.alice).toContain("to alice");
+    expect(received.bob).toContain("to bob");
+  });
+
+  it("should select the inspected agent by address", async () => {
+    const response = await fetch(`http://127.0.0.1:${bureau.port}/agent_info`, {
+      headers: { "x-uagents-address": bob.address },
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).agent_address).toEqual(bob.address);
+  });
+
+  it("should reject agents once running or already in a bureau", () => {
+    expect(() => bureau.add(buildAgent("bureau late seed"))).toThrow("running bureau");
+    expect(() => new Bureau({ agents: [alice] })).toThrow("already part of a bureau");
+  });
+
+  it("should build the batch again for every registration", async () => {
+    await bureau.register();
+    expect(policy.agents.map((info) => info.agent_address)).toEqual([alice.address, bob.address]);
+
+    const previousAddress = bob.address;
+    await bob.rotateKeys({ gracePeriodSeconds: 60 });
+    await bureau.register();
+
+    expect(bob.address).not.toEqual(previousAddress);
+    expect(policy.agents.map((info) => info.agent_address)).toEqual([alice.address, bob.address]);
+    expect(policy.registrations).toBe(3);
+  });
+});
+
+describe("Bureau startup", () => {
+  it("should roll back its startup when the port is in use", async () => {
+    const blocker = http.createServer();
+    await new Promise<void>((resolve) => blocker.listen(0, resolve));
+    const port = (blocker.address() as AddressInfo).port;
+    const agent = buildAgent("bureau occupied port seed");
+    const bureau = new Bureau({ port, agents: [agent], registrationPolicy: new RecordingBatchPolicy() });
+    const signalListeners = process.listenerCount("SIGINT");
+
+    try {
+      await expect(bureau.runAsync()).rejects.toThrow("EADDRINUSE");
+      expect(agent.running).toBe(false);
+      expect(process.listenerCount("SIGINT")).toBe(signalListeners);
+    } finally {
+      await new Promise((resolve) => blocker.close(resolve));
+    }
+
+    await bureau.setup();
+    expect(agent.running).toBe(true);
+    await bureau.stop();
+  });
+});
@@ -0,0 +1,320 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "@jest/globals";
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import {
+  Dispenser,
+  EndpointHealth,
+  Outbox,
+  RetryPolicy,
+  encloseResponseRaw,
+  encloseSignedResponseRaw,
+  sendExchangeEnvelope,
+} from "../src/Communication";
+import { Identity } from "../src/crypto";
+import { Envelope, EnvelopeHistory } from "../src/Envelope";
+import { ContextStorage, INTERNAL_KEY_PREFIX, KeyValueStore } from "../src/Storage";
+import { DeliveryStatus, MsgStatus } from "../src/types";
+import { Future } from "../src/utils";
+
+const FAST_RETRIES: RetryPolicy = { maxAttempts: 3, backoffSeconds: 0.01, maxBackoffSeconds: 0.05, jitter: 0.5 };
+
+async function buildEnvelope(sender: Identity, target: string, body: object, expires?: number): Promise<Envelope> {
+  const env = new Envelope({
+    version: 1,
+    sender: sender.getAddress,
+    target,
+    session: "8d3c2a4e-5f61-4b7a-9c2d-1e0f3a4b5c6d",
+    schemaDigest: "model:test",
+    expires: expires ?? Math.floor(Date.now() / 1000) + 30,
+  });
+  env.encodePayload(JSON.stringify(body));
+  await env.sign(sender);
+  return env;
+}
+
+describe("Response envelopes", () => {
+  const agent = Identity.generate();
+  const target = Identity.generate().getAddress;
+
+  it("should enclose responses signed by an identity synchronously", () => {
+    const json = encloseResponseRaw('{"text":"pong"}', "model:pong", agent.getAddress, "session", target, agent);
+    const env = Envelope.modelValidate(JSON.parse(json));
+
+    expect(JSON.parse(env.decodePayload())).toEqual({ text: "pong" });
+    expect(() => env.verify()).not.toThrow();
+  });
+
+  it("should enclose responses signed by any signer", async () => {
+    const signer = { address: agent.getAddress, publicKey: agent.publicKey, signDigest: (d: Buffer) => agent.signDigest(d) };
+    const json = await encloseSignedResponseRaw('{"text":"pong"}', "model:pong", agent.getAddress, "session", target, signer);
+    const env = Envelope.modelValidate(JSON.parse(json));
+
+    expect(env.nonce).toBeDefined();
+    expect(() => env.verify()).not.toThrow();
+  });
+});
+
+describe("Dispenser", () => {
+  const sender = Identity.generate();
+  const target = Identity.generate().getAddress;
+  const received: any[] = [];
+  let flakyFailures = 0;
+  let server: http.Server;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", async () => {
+        if (req.url === "/flaky" && flakyFailures > 0) {
+          flakyFailures--;
+          res.writeHead(503);
+          res.end("unavailable");
+          return;
+        }
+        if (req.url === "/reject") {
+          res.writeHead(400);
+          res.end("rejected");
+          return;
+        }
+        const env = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+        received.push(env);
+        res.writeHead(200, { "content-type": "application/json" });
+        if (req.headers["x-uagents-connection"] === "sync") {
+          res.end(encloseResponseRaw('{"text":"pong"}', "model:pong", env.target, env.session, env.sender));
+        } else {
+          res.end("{}");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/submit`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("should send queued envelopes and record them in the history", async () => {
+    const history = new EnvelopeHistory();
+    const dispenser = new Dispenser(history);
+    const running = dispenser.run();
+
+    const first = new Future<MsgStatus | Envelope>();
+    const second = new Future<MsgStatus | Envelope>();
+    dispenser.addEnvelope(await buildEnvelope(sender, target, { n: 1 }), [endpoint], first);
+    dispenser.addEnvelope(await buildEnvelope(sender, target, { n: 2 }), [endpoint], second);
+
+    const results = await Promise.all([first.promise, second.promise]);
+    await dispenser.stop();
+    await running;
+
+    expect(results.map((r) => (r as MsgStatus).status)).toEqual([
+      DeliveryStatus.DELIVERED,
+      DeliveryStatus.DELIVERED,
+    ]);
+    expect(received.map((env) => env.target)).toEqual([target, target]);
+    expect(history.envelopes).toHaveLength(2);
+    expect(history.envelopes[0]!.sender).toEqual(sender.getAddress);
+  });
+
+  it("should resolve sync envelopes with the response envelope", async () => {
+    const dispenser = new Dispenser();
+    const running = dispenser.run();
+
+    const future = new Future<MsgStatus | Envelope>();
+    dispenser.addEnvelope(await buildEnvelope(sender, target, { n: 3 }), [endpoint], future, true);
+
+    const result = await future.promise;
+    await dispenser.stop();
+    await running;
+
+    expect(result).toBeInstanceOf(Envelope);
+    expect(JSON.parse((result as Envelope).decodePayload())).toEqual({ text: "pong" });
+  });
+
+  it("should report failed deliveries", async () => {
+    const dispenser = new Dispenser(undefined, FAST_RETRIES);
+    const running = dispenser.run();
+
+    const future = new Future<MsgStatus | Envelope>();
+    dispenser.addEnvelope(await buildEnvelope(sender, target, { n: 4 }), ["http://127.0.0.1:1/submit"], future);
+
+    const result = await future.promise;
+    await dispenser.stop();
+    await running;
+
+    expect((result as MsgStatus).status).toEqual(DeliveryStatus.FAILED);
+  });
+
+  it("should retry endpoints failing with server errors", async () => {
+    flakyFailures = 2;
+    const flaky = endpoint.replace("/submit", "/flaky");
+
+    const result = await sendExchangeEnvelope(
+      await buildEnvelope(sender, target, { n: 5 }), [flaky], false, FAST_RETRIES, new EndpointHealth()
+    ) as MsgStatus;
+
+    expect(result.status).toEqual(DeliveryStatus.DELIVERED);
+    expect(result.endpoint).toEqual(flaky);
+    expect(result.detail).toContain("after 3 attempts");
+  });
+
+  it("should report attempts and last errors for each endpoint", async () => {
+    flakyFailures = 10;
+    const flaky = endpoint.replace("/submit", "/flaky");
+    const reject = endpoint.replace("/submit", "/reject");
+
+    const result = await sendExchangeEnvelope(
+      await buildEnvelope(sender, target, { n: 6 }), [reject, flaky], false, FAST_RETRIES, new EndpointHealth()
+    ) as MsgStatus;
+
+    expect(result.status).toEqual(DeliveryStatus.FAILED);
+    expect(result.detail).toContain(`${reject} (1 attempts): HTTP 400: rejected`);
+    expect(result.detail).toContain(`${flaky} (3 attempts): HTTP 503: unavailable`);
+  });
+
+  it("should skip endpoints that keep failing", async () => {
+    flakyFailures = 10;
+    const flaky = endpoint.replace("/submit", "/flaky");
+    const health = new EndpointHealth(2, 60);
+
+    await sendExchangeEnvelope(await buildEnvelope(sender, target, { n: 7 }), [flaky], false, FAST_RETRIES, health);
+    const remaining = flakyFailures;
+    const result = await sendExchangeEnvelope(
+      await buildEnvelope(sender, target, { n: 8 }), [flaky, endpoint], false, FAST_RETRIES, health
+    ) as MsgStatus;
+
+    expect(remaining).toBe(8);
+    expect(flakyFailures).toBe(remaining);
+    expect(health.isAvailable(flaky)).toBe(false);
+    expect(result.status).toEqual(DeliveryStatus.DELIVERED);
+    expect(result.endpoint).toEqual(endpoint);
+  });
+
+  describe("with an outbox", () => {
+    let dir: string;
+    let stores: KeyValueStore[];
+
+    // each store stands for the storage of an agent run, flushed when the agent stops
+    const openStore = (): KeyValueStore => {
+      const store = new KeyValueStore("outbox", dir);
+      stores.push(store);
+      return store;
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(`${os.tmpdir()}/outbox-`);
+      stores = [];
+    });
+
+    afterEach(async () => {
+      for (const store of stores) {
+        await store.flush();
+      }
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should remove delivered envelopes from the outbox", async () => {
+      const outbox = new Outbox(openStore());
+      const dispenser = new Dispenser(undefined, FAST_RETRIES, outbox);
+      const running = dispenser.run();
+
+      const future = new Future<MsgStatus | Envelope>();
+      dispenser.addEnvelope(await buildEnvelope(sender, target, { n: 9 }), [endpoint], future);
+      expect(outbox.list()).toHaveLength(1);
+
+      await future.promise;
+      await dispenser.stop();
+      await running;
+
+      expect(outbox.list()).toHaveLength(0);
+    });
+
+    it("should replay undelivered envelopes on startup", async () => {
+      flakyFailures = 1;
+      const flaky = endpoint.replace("/submit", "/flaky");
+      const retryOnce = { ...FAST_RETRIES, maxAttempts: 1 };
+
+      const first = new Dispenser(undefined, retryOnce, new Outbox(openStore()));
+      const firstRun = first.run();
+      const future = new Future<MsgStatus | Envelope>();
+      first.addEnvelope(await buildEnvelope(sender, target, { n: 10 }), [flaky], future);
+      expect((await future.promise as MsgStatus).status).toEqual(DeliveryStatus.FAILED);
+      await first.stop();
+      await firstRun;
+      await stores[0]!.flush();
+
+      const outbox = new Outbox(openStore());
+      const [entry] = outbox.list();
+      expect(entry!.envelope.target).toEqual(target);
+      expect(entry!.endpoints).toEqual([flaky]);
+
+      const delivered = received.length;
+      const second = new Dispenser(undefined, retryOnce, outbox);
+      const secondRun = second.run();
+      await second.stop();
+      await secondRun;
+
+      expect(received).toHaveLength(delivered + 1);
+      expect(outbox.list()).toHaveLength(0);
+    });
+
+    it("should retry undelivered envelopes periodically", async () => {
+      flakyFailures = 1;
+      const flaky = endpoint.replace("/submit", "/flaky");
+      const outbox = new Outbox(openStore(), 0.05);
+      const dispenser = new Dispenser(undefined, { ...FAST_RETRIES, maxAttempts: 1 }, outbox);
+      const running = dispenser.run();
+
+      const delivered = received.length;
+      const future = new Future<MsgStatus | Envelope>();
+      dispenser.addEnvelope(await buildEnvelope(sender, target, { n: 14 }), [flaky], future);
+      expect((await future.promise as MsgStatus).status).toEqual(DeliveryStatus.FAILED);
+      expect(outbox.list()).toHaveLength(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await dispenser.stop();
+      await running;
+
+      expect(received).toHaveLength(delivered + 1);
+      expect(outbox.list()).toHaveLength(0);
+    });
+
+    it("should keep the outbox out of reach of handlers, one key per envelope", async () => {
+      const store = openStore();
+      const outbox = new Outbox(store);
+      const first = outbox.add(await buildEnvelope(sender, target, { n: 15 }), [endpoint]);
+      const second = outbox.add(await buildEnvelope(sender, target, { n: 16 }), [endpoint]);
+
+      expect(store.keys().sort()).toEqual(
+        [`${INTERNAL_KEY_PREFIX}outbox/${first}`, `${INTERNAL_KEY_PREFIX}outbox/${second}`].sort()
+      );
+      expect(new ContextStorage(store).keys()).toEqual([]);
+
+      outbox.remove(first);
+      expect(store.keys()).toEqual([`${INTERNAL_KEY_PREFIX}outbox/${second}`]);
+    });
+
+    it("should drop expired envelopes and purge entries", async () => {
+      const outbox = new Outbox(openStore());
+      const expires = Math.floor(Date.now() / 1000) - 10;
+      outbox.add(await buildEnvelope(sender, target, { n: 11 }, expires), [endpoint]);
+      outbox.add(await buildEnvelope(sender, target, { n: 12 }), ["http://127.0.0.1:1/submit"]);
+      outbox.add(await buildEnvelope(sender, target, { n: 13 }), ["http://127.0.0.1:2/submit"]);
+
+      const dispenser = new Dispenser(undefined, FAST_RETRIES, outbox);
+      const running = dispenser.run();
+      await dispenser.stop();
+      await running;
+      expect(outbox.list()).toHaveLength(2);
+
+      expect(outbox.purge((entry) => entry.endpoints[0]!.includes(":1/"))).toBe(1);
+      expect(outbox.purge()).toBe(1);
+      expect(outbox.list()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { Encoder } from "cbor-x";
+import http from "http";
+import { AddressInfo } from "net";
+import { gunzipSync, gzipSync } from "zlib";
+import { z } from "zod";
+import { Agent } from "../src/Agent";
+import { Context } from "../src/Context";
+import { Identity } from "../src/crypto";
+import { EndpointHealth, sendExchangeEnvelope } from "../src/Communication";
+import { MAX_ENVELOPE_SIZE_BYTES } from "../src/Config";
+import { EnvelopeTooLargeError, decodeEnvelope, encodeEnvelope, parseWireFormat } from "../src/Encoding";
+import { Envelope, generateNonce } from "../src/Envelope";
+import { Model } from "../src/model";
+import { query } from "../src/Query";
+import { AgentRegistrationPolicy } from "../src/Registration";
+import { RulesBasedResolver } from "../src/Resolver";
+import { MemoryStorage } from "../src/Storage";
+
+class NoopRegistrationPolicy extends AgentRegistrationPolicy {
+  async register(): Promise<void> {}
+}
+
+const Reading = new Model(z.object({ values: z.array(z.number()) }).openapi({ title: "Reading" }));
+const Summary = new Model(z.object({ count: z.number() }).openapi({ title: "Summary" }));
+
+async function buildEnvelope(sender: Identity, target: string, values: number[]): Promise<Envelope> {
+  const env = new Envelope({
+    version: 1,
+    sender: sender.address,
+    target,
+    session: "0b6f3c2a-7d4e-4a9b-8c1d-2e3f4a5b6c7d",
+    schemaDigest: Model.buildSchemaDigest(Reading),
+    expires: Math.floor(Date.now() / 1000) + 30,
+    nonce: generateNonce(),
+  });
+  env.encodePayload(JSON.stringify({ values }));
+  await env.sign(sender);
+  return env;
+}
+
+describe("Wire formats", () => {
+  const sender = Identity.generate();
+  const target = Identity.generate().address;
+
+  it("should parse content types and encodings", () => {
+    expect(parseWireFormat()).toEqual({ encoding: "json" });
+    expect(parseWireFormat("application/json; charset=utf-8")).toEqual({ encoding: "json" });
+    expect(parseWireFormat("application/cbor", "br")).toEqual({ encoding: "cbor", compression: "br" });
+    expect(parseWireFormat("application/json", "identity")).toEqual({ encoding: "json" });
+    expect(() => parseWireFormat("text/plain")).toThrow("Unsupported content type");
+    expect(() => parseWireFormat("")).toThrow("Unsupported content type");
+    expect(() => parseWireFormat("application/json", "deflate")).toThrow("Unsupported content encoding");
+  });
+
+  it("should keep JSON as the default", async () => {
+    const env = await buildEnvelope(sender, target, [1, 2, 3]);
+    const { body, headers } = encodeEnvelope(env);
+
+    expect(headers).toEqual({ "content-type": "application/json" });
+    expect(body.toString()).toEqual(JSON.stringify(env));
+  });
+
+  it("should round trip signed envelopes through CBOR with a raw payload", async () => {
+    const env = await buildEnvelope(sender, target, [1, 2, 3]);
+    const { body, headers } = encodeEnvelope(env, { encoding: "cbor" });
+    const decoded = decodeEnvelope(body, parseWireFormat(headers["content-type"]));
+
+    expect(headers).toEqual({ "content-type": "application/cbor" });
+    expect(body.length).toBeLessThan(JSON.stringify(env).length);
+    expect(body.includes(Buffer.from(JSON.stringify({ values: [1, 2, 3] })))).toBe(true);
+    expect(decoded).toEqual(env);
+    expect(() => decoded.verify()).not.toThrow();
+  });
+
+  it("should only compress envelopes above the threshold", async () => {
+    const small = await buildEnvelope(sender, target, [1]);
+    expect(encodeEnvelope(small, { compression: "gzip" }).headers["content-encoding"]).toBeUndefined();
+
+    const large = await buildEnvelope(sender, target, Array(1000).fill(42));
+    for (const compression of ["gzip", "br"] as const) {
+      const { body, headers } = encodeEnvelope(large, { encoding: "cbor", compression });
+      expect(headers["content-encoding"]).toEqual(compression);
+      expect(body.length).toBeLessThan(1000);
+      expect(decodeEnvelope(body, parseWireFormat(headers["content-type"], compression))).toEqual(large);
+    }
+    const gzipped = encodeEnvelope(large, { compression: "gzip", compressionThreshold: 0 }).body;
+    expect(gunzipSync(gzipped).toString()).toEqual(JSON.stringify(large));
+  });
+
+  it("should limit the decompressed size of envelopes", async () => {
+    const large = await buildEnvelope(sender, target, Array(1000).fill(42));
+    for (const compression of ["gzip", "br"] as const) {
+      const { body } = encodeEnvelope(large, { compression });
+      expect(() => decodeEnvelope(body, { compression }, 1000)).toThrow(EnvelopeTooLargeError);
+      expect(decodeEnvelope(body, { compression }, 10000)).toEqual(large);
+    }
+  });
+
+  it("should reject malformed CBOR", async () => {
+    const { body } = encodeEnvelope(await buildEnvelope(sender, target, [1]), { encoding: "cbor" });
+
+    expect(() => decodeEnvelope(body.subarray(0, body.length - 1), { encoding: "cbor" })).toThrow("end of CBOR");
+    expect(() => decodeEnvelope(Buffer.concat([body, Buffer.from([0])]), { encoding: "cbor" })).toThrow();
+    expect(() => decodeEnvelope(Buffer.from([0x83, 1, 2, 3]), { encoding: "cbor" })).toThrow("not a map");
+  });
+
+  it("should decode CBOR written by other encoders", async () => {
+    const env = await buildEnvelope(sender, target, [1, 2, 3]);
+    const { payload, version, expires, ...fields } = env.toJSON();
+    const item = (value: unknown) => new Encoder({ useRecords: false, tagUint8Array: false }).encode(value);
+    const expiresDouble = Buffer.alloc(9);
+    expiresDouble[0] = 0xfb;
+    expiresDouble.writeDoubleBE(expires!, 1);
+    const body = Buffer.concat([
+      Buffer.from([0xd9, 0xd9, 0xf7]), // self-described CBOR tag
+      Buffer.from([0xbf]), // indefinite-length map
+      ...Object.entries(fields).flatMap(([key, value]) => [item(key), item(value)]),
+      item("version"), Buffer.from([0xf9, 0x3c, 0x00]), // half precision 1.0
+      item("expires"), expiresDouble,
+      item("payload"), item(Buffer.from(payload!, "base64")),
+      Buffer.from([0xff]),
+    ]);
+    const decoded = decodeEnvelope(body, { encoding: "cbor" });
+
+    expect(decoded).toEqual(env);
+    expect(() => decoded.verify()).not.toThrow();
+  });
+
+  it("should reject unknown CBOR tags", async () => {
+    const { body } = encodeEnvelope(await buildEnvelope(sender, target, [1]), { encoding: "cbor" });
+    const tagged = Buffer.concat([Buffer.from([0xd8, 0x63]), body]);
+
+    expect(() => decodeEnvelope(tagged, { encoding: "cbor" })).toThrow("not a map");
+  });
+});
+
+describe("Negotiated wire formats", () => {
+  const agent = new Agent({
+    seed: "wire format test seed",
+    port: 0,
+    resolver: new RulesBasedResolver({}),
+    storage: new MemoryStorage(),
+    registrationPolicy: new NoopRegistrationPolicy(),
+  });
+  const received: number[][] = [];
+  let resolver: RulesBasedResolver;
+  let url: string;
+
+  agent.onMessage(Reading)(async (ctx: Context, from: string, msg: any) => {
+    received.push(msg.values);
+  });
+  agent.onQuery(Summary)(async (ctx: Context, from: string, msg: any) => {
+    await ctx.sendRaw(from, Model.buildSchemaDigest(Summary), JSON.stringify({ count: msg.count + 1 }));
+  });
+
+  beforeAll(async () => {
+    await agent.setup();
+    url = `http://127.0.0.1:${agent.port}/submit`;
+    resolver = new RulesBasedResolver({ [agent.address]: [url] });
+  });
+
+  afterAll(async () => {
+    await agent.stop();
+  });
+
+  it("should accept compressed CBOR envelopes", async () => {
+    const values = Array(500).fill(7);
+    const { body, headers } = encodeEnvelope(
+      await buildEnvelope(Identity.generate(), agent.address, values),
+      { encoding: "cbor", compression: "br" }
+    );
+    const response = await fetch(url, { method: "POST", headers, body });
+
+    expect(response.status).toBe(200);
+    expect(received).toContainEqual(values);
+  });
+
+  it("should reject unsupported formats", async () => {
+    const env = await buildEnvelope(Identity.generate(), agent.address, [1]);
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/msgpack" },
+      body: JSON.stringify(env),
+    });
+
+    expect(response.status).toBe(415);
+    expect(await response.json()).toMatchObject({ error: "Unsupported media type" });
+
+    const compressed = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", "content-encoding": "deflate" },
+      body: JSON.stringify(env),
+    });
+    expect(compressed.status).toBe(415);
+  });
+
+  it("should fall back to JSON for endpoints not supporting the wire format", async () => {
+    const contentTypes: string[] = [];
+    const server = http.createServer((req, res) => {
+      contentTypes.push(req.headers["content-type"]!);
+      res.writeHead(req.headers["content-type"] === "application/json" ? 200 : 415);
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/submit`;
+    const health = new EndpointHealth();
+
+    try {
+      for (const values of [[1], [2]]) {
+        const env = await buildEnvelope(Identity.generate(), agent.address, values);
+        const result = await sendExchangeEnvelope(env, [endpoint], false, undefined, health, { encoding: "cbor" });
+        expect(result).toMatchObject({ status: "delivered" });
+      }
+      expect(contentTypes).toEqual(["application/cbor", "application/json", "application/json"]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("should reject oversized and decompression bomb bodies", async () => {
+    const oversized = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: Buffer.alloc(MAX_ENVELOPE_SIZE_BYTES + 1, 0x20),
+    });
+    expect(oversized.status).toBe(413);
+
+    const bomb = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", "content-encoding": "gzip" },
+      body: gzipSync(Buffer.alloc(MAX_ENVELOPE_SIZE_BYTES + 1, 0x20)),
+    });
+    expect(bomb.status).toBe(413);
+    expect(await bomb.json()).toMatchObject({ error: "Envelope too large" });
+  });
+
+  it("should answer queries in their wire format", async () => {
+    const result = await query(agent.address, Summary, { count: 1 }, Summary, {
+      resolver,
+      sender: Identity.generate(),
+      wireFormat: { encoding: "cbor", compression: "gzip", compressionThreshold: 0 },
+    });
+
+    expect(result).toMatchObject({ ok: true, data: { count: 2 } });
+  });
+});
@@ -0,0 +1,292 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import http from "http";
+import { AddressInfo } from "net";
+import { z } from "zod";
+import { Agent } from "../src/Agent";
+import { Context } from "../src/Context";
+import { DecryptionError, Identity, Signer } from "../src/crypto";
+import {
+  ENCRYPTED_ENVELOPE_VERSION,
+  Envelope,
+  PAYLOAD_ENCRYPTION,
+  supportsPayloadEncryption,
+} from "../src/Envelope";
+import { Model } from "../src/model";
+import { query } from "../src/Query";
+import { AgentRegistrationPolicy } from "../src/Registration";
+import { AlmanacApiResolver, RulesBasedResolver } from "../src/Resolver";
+import { MemoryStorage } from "../src/Storage";
+
+class NoopRegistrationPolicy extends AgentRegistrationPolicy {
+  async register(): Promise<void> {}
+}
+
+const Secret = new Model(z.object({ text: z.string() }).openapi({ title: "Secret" }));
+const Whisper = new Model(z.object({ text: z.string() }).openapi({ title: "Whisper" }));
+const SECRET_DIGEST = Model.buildSchemaDigest(Secret);
+
+async function buildEnvelope(sender: Identity, target: string, text: string): Promise<Envelope> {
+  const env = new Envelope({
+    version: 1,
+    sender: sender.address,
+    target,
+    session: "5c0d1f6e-2b7a-4e3c-8d9f-1a2b3c4d5e6f",
+    schemaDigest: SECRET_DIGEST,
+    expires: Math.floor(Date.now() / 1000) + 30,
+  });
+  env.encryptPayload(JSON.stringify({ text }));
+  await env.sign(sender);
+  return env;
+}
+
+describe("Payload encryption", () => {
+  const alice = Identity.generate();
+  const bob = Identity.generate();
+
+  it("should let the target decrypt payloads encrypted by another identity", async () => {
+    const sent = await buildEnvelope(alice, bob.address, "for bob only");
+    const received = Envelope.modelValidate(JSON.parse(JSON.stringify(sent)));
+
+    expect(received.encryption).toEqual(PAYLOAD_ENCRYPTION);
+    expect(Buffer.from(received.payload!, "base64").toString("latin1")).not.toContain("for bob only");
+    expect(() => received.verify()).not.toThrow();
+    expect(() => received.decodePayload()).toThrow("encrypted");
+    expect(JSON.parse(await received.decryptPayload(bob))).toEqual({ text: "for bob only" });
+  });
+
+  it("should use a fresh key for every payload", async () => {
+    const first = await buildEnvelope(alice, bob.address, "same text");
+    const second = await buildEnvelope(alice, bob.address, "same text");
+
+    expect(first.payload).not.toEqual(second.payload);
+  });
+
+  it("should reject other recipients and tampered envelopes", async () => {
+    const env = await buildEnvelope(alice, bob.address, "for bob only");
+    await expect(env.decryptPayload(Identity.generate())).rejects.toThrow(DecryptionError);
+
+    const replayed = new Envelope({ ...env, session: "00000000-0000-4000-8000-000000000000" });
+    await expect(replayed.decryptPayload(bob)).rejects.toThrow(DecryptionError);
+
+    const stripped = new Envelope({ ...env, encryption: undefined });
+    expect(() => stripped.verify()).toThrow();
+
+    const signer: Signer = { address: bob.address, publicKey: bob.publicKey, signDigest: (d) => bob.signDigest(d) };
+    await expect(env.decryptPayload(signer)).rejects.toThrow("unable to decrypt payloads");
+  });
+
+  it("should flag encrypted envelopes with their own version", async () => {
+    const env = await buildEnvelope(alice, bob.address, "flagged");
+    expect(env.version).toEqual(ENCRYPTED_ENVELOPE_VERSION);
+
+    const downgraded = new Envelope({ ...env, version: 1 });
+    expect(() => downgraded.verify()).not.toThrow();
+    await expect(downgraded.decryptPayload(bob)).rejects.toThrow("require envelope version 2");
+  });
+
+  it("should only encrypt for agent addresses", () => {
+    const env = new Envelope({ version: 1, sender: alice.address, target: "user1abc", session: "s", schemaDigest: "d" });
+    expect(() => env.encryptPayload("{}")).toThrow();
+  });
+});
+
+describe("Encrypting agents", () => {
+  const receiver = new Agent({
+    seed: "encrypting receiver seed",
+    port: 0,
+    encryptPayloads: true,
+    resolver: new RulesBasedResolver({}),
+    storage: new MemoryStorage(),
+    registrationPolicy: new NoopRegistrationPolicy(),
+  });
+  const received: string[] = [];
+  let resolver: RulesBasedResolver;
+
+  receiver.onMessage(Secret)(async (ctx: Context, from: string, msg: any) => {
+    received.push(msg.text);
+  });
+  receiver.onQuery(Whisper)(async (ctx: Context, from: string, msg: any) => {
+    await ctx.sendRaw(from, Model.buildSchemaDigest(Whisper), JSON.stringify({ text: msg.text.toUpperCase() }));
+  });
+
+  beforeAll(async () => {
+    await receiver.setup();
+    resolver = new RulesBasedResolver(
+      { [receiver.address]: [`http://127.0.0.1:${receiver.port}/submit`] },
+      undefined,
+      { [receiver.address]: receiver.info.metadata! }
+    );
+  });
+
+  afterAll(async () => {
+    await receiver.stop();
+  });
+
+  it("should decrypt submitted envelopes before dispatching them", async () => {
+    const response = await fetch(`http://127.0.0.1:${receiver.port}/submit`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(await buildEnvelope(Identity.generate(), receiver.address, "over http")),
+    });
+
+    expect(response.status).toBe(200);
+    expect(received).toContain("over http");
+  });
+
+  it("should reject envelopes encrypted for another agent", async () => {
+    const identity = Identity.generate();
+    const env = await buildEnvelope(identity, Identity.generate().address, "misrouted");
+    const forged = new Envelope({ ...env, target: receiver.address });
+    await forged.sign(identity);
+
+    const response = await fetch(`http://127.0.0.1:${receiver.port}/submit`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(forged),
+    });
+
+    expect(response.status).toBe(400);
+    expect(received).not.toContain("misrouted");
+  });
+
+  it("should answer encrypted queries with encrypted responses", async () => {
+    const identity = Identity.generate();
+    const result = await query(receiver.address, Whisper, { text: "quiet" }, Whisper, {
+      resolver,
+      sender: identity,
+      encrypt: true,
+    });
+
+    expect(result).toMatchObject({ ok: true, data: { text: "QUIET" } });
+    if (result.ok) {
+      expect(result.envelope.encryption).toEqual(PAYLOAD_ENCRYPTION);
+    }
+  });
+
+  it("should not encrypt queries for agents not advertising support", async () => {
+    const result = await query(receiver.address, Whisper, { text: "quiet" }, Whisper, {
+      resolver: new RulesBasedResolver({ [receiver.address]: [`http://127.0.0.1:${receiver.port}/submit`] }),
+      sender: Identity.generate(),
+      encrypt: true,
+    });
+
+    expect(result).toMatchObject({ ok: false, status: { detail: "Destination does not support encrypted payloads" } });
+  });
+});
+
+describe("Encryption support", () => {
+  const supporting = Identity.generate();
+  const legacy = Identity.generate();
+  const received: Envelope[] = [];
+  let server: http.Server;
+  let sender: Agent;
+  let context: Context;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push(Envelope.modelValidate(JSON.parse(body)));
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end("{}");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/submit`;
+
+    sender = new Agent({
+      seed: "encryption support sender seed",
+      port: 0,
+      encryptPayloads: true,
+      resolver: new RulesBasedResolver(
+        { [supporting.address]: [url], [legacy.address]: [url] },
+        undefined,
+        { [supporting.address]: { encryption: PAYLOAD_ENCRYPTION } }
+      ),
+      storage: new MemoryStorage(),
+      registrationPolicy: new NoopRegistrationPolicy(),
+    });
+    sender.onEvent("startup")(async (ctx: Context) => {
+      context = ctx;
+    });
+    await sender.setup();
+  });
+
+  afterAll(async () => {
+    await sender.stop();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should advertise support in the registration metadata of agents able to decrypt", () => {
+    expect(supportsPayloadEncryption(sender.info.metadata)).toBe(true);
+    expect(supportsPayloadEncryption({ encryption: `other, ${PAYLOAD_ENCRYPTION}` })).toBe(true);
+    expect(supportsPayloadEncryption(null)).toBe(false);
+
+    const identity = Identity.generate();
+    const signer: Signer = {
+      address: identity.address,
+      publicKey: identity.publicKey,
+      signDigest: (d) => identity.signDigest(d),
+    };
+    const external = new Agent({ signer, storage: new MemoryStorage(), registrationPolicy: new NoopRegistrationPolicy() });
+    expect(supportsPayloadEncryption(external.info.metadata)).toBe(false);
+  });
+
+  it("should only encrypt for destinations advertising support", async () => {
+    await context.sendRaw(supporting.address, SECRET_DIGEST, JSON.stringify({ text: "encrypted" }));
+    await context.sendRaw(legacy.address, SECRET_DIGEST, JSON.stringify({ text: "plaintext" }));
+
+    const [encrypted, plaintext] = received;
+    expect(encrypted).toMatchObject({ target: supporting.address, version: 2, encryption: PAYLOAD_ENCRYPTION });
+    expect(JSON.parse(await encrypted!.decryptPayload(supporting))).toEqual({ text: "encrypted" });
+    expect(plaintext).toMatchObject({ target: legacy.address, version: 1 });
+    expect(plaintext!.encryption).toBeUndefined();
+    expect(JSON.parse(plaintext!.decodePayload())).toEqual({ text: "plaintext" });
+  });
+});
+
+describe("Advertised capabilities", () => {
+  const agent = Identity.generate();
+  let requests = 0;
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests++;
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({
+        expiry: new Date(Date.now() + 3600 * 1000).toISOString(),
+        endpoints: [{ url: "http://agent.example/submit", weight: 1 }],
+        metadata: { encryption: PAYLOAD_ENCRYPTION },
+      }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should cache the metadata fetched from the Almanac API", async () => {
+    const resolver = new AlmanacApiResolver(undefined, url);
+
+    await resolver.resolve(agent.address);
+    expect(supportsPayloadEncryption(await resolver.metadata(agent.address))).toBe(true);
+    expect(supportsPayloadEncryption(await resolver.metadata(agent.address))).toBe(true);
+    expect(requests).toBe(1);
+
+    const other = Identity.generate().address;
+    await resolver.metadata(other);
+    await resolver.metadata(other);
+    expect(requests).toBe(2);
+  });
+
+  it("should not fail when the Almanac API is unreachable", async () => {
+    const resolver = new AlmanacApiResolver(undefined, "http://127.0.0.1:1");
+
+    expect(await resolver.metadata(agent.address)).toBeNull();
+  });
+});
@@ -0,0 +1,302 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { Agent, AgentOptions } from "../src/Agent";
+import { Identity } from "../src/crypto";
+import { dispatcher } from "../src/Dispatch";
+import { Envelope } from "../src/Envelope";
+import { Keystore } from "../src/Keystore";
+import * as Network from "../src/Network";
+import { AgentRegistrationPolicy, MovedToRecord } from "../src/Registration";
+import { AlmanacApiResolver, AlmanacContractResolver, RulesBasedResolver } from "../src/Resolver";
+import { MemoryStorage } from "../src/Storage";
+import { AgentEndpoint } from "../src/types";
+
+const MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+type Registration = { address: string; metadata: Record<string, string> | null };
+
+class RecordingRegistrationPolicy extends AgentRegistrationPolicy {
+  registrations: Registration[] = [];
+
+  async register(
+    address: string,
+    protocols: string[],
+    endpoints: AgentEndpoint[],
+    metadata: Record<string, string> | null
+  ): Promise<void> {
+    this.registrations.push({ address, metadata });
+  }
+}
+
+describe("Keystore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "keystore-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should create, list and delete identities", () => {
+    const keystore = new Keystore(dir, null);
+    const alice = keystore.create("alice");
+    const bob = keystore.create("bob");
+
+    expect(keystore.list().map((entry) => [entry.name, entry.address])).toEqual([
+      ["alice", alice.address],
+      ["bob", bob.address],
+    ]);
+    expect(keystore.list()[0]!.walletAddress).toEqual(keystore.wallet("alice").address());
+    expect(keystore.get("bob").address).toEqual(bob.address);
+    expect(() => keystore.create("alice")).toThrow("already has an identity named alice");
+
+    keystore.delete("alice");
+    expect(keystore.has("alice")).toBe(false);
+    expect(() => keystore.get("alice")).toThrow("no identity named alice");
+    expect(() => keystore.delete("alice")).toThrow("no identity named alice");
+  });
+
+  it("should import and export private keys and mnemonics", () => {
+    const keystore = new Keystore(dir, null);
+    const identity = Identity.generate();
+    keystore.import("key", identity.privateKey, "01".repeat(32));
+    keystore.import("mnemonic", MNEMONIC.toUpperCase());
+
+    expect(keystore.get("key").address).toEqual(identity.address);
+    expect(keystore.export("key")).toEqual({ identity_key: identity.privateKey, wallet_key: "01".repeat(32) });
+
+    const exported = keystore.export("mnemonic");
+    expect(exported.mnemonic).toEqual(MNEMONIC);
+    expect(keystore.get("mnemonic").address).toEqual(Identity.fromMnemonic(MNEMONIC).address);
+
+    const other = new Keystore(fs.mkdtempSync(path.join(dir, "other-")), null);
+    other.import("mnemonic", exported.mnemonic!);
+    expect(other.export("mnemonic")).toEqual(exported);
+  });
+
+  it("should keep previous keys and mnemonics until the end of the grace period", () => {
+    const keystore = new Keystore(dir, null);
+    const previous = keystore.import("rotating", MNEMONIC);
+    const next = keystore.rotate("rotating", Identity.generate(), 60, "{}");
+
+    expect(keystore.get("rotating").address).toEqual(next.address);
+    expect(keystore.export("rotating").previous).toEqual([
+      { identity_key: previous.privateKey, mnemonic: MNEMONIC, expires: expect.any(Number), moved_to: "{}" },
+    ]);
+    expect(keystore.previous("rotating").map((entry) => entry.identity.address)).toEqual([previous.address]);
+
+    keystore.rotate("rotating", Identity.generate(), 0);
+    expect(keystore.previous("rotating").map((entry) => entry.identity.address)).toEqual([previous.address]);
+    expect(keystore.export("rotating").previous).toHaveLength(2);
+  });
+
+  it("should share the encrypted private keys file with named agents", () => {
+    const keystore = new Keystore(dir, "correct horse");
+    const identity = keystore.create("named");
+    expect(fs.readFileSync(path.join(dir, "private_keys.json"), "utf-8")).not.toContain(identity.privateKey);
+
+    jest.spyOn(process, "cwd").mockReturnValue(dir);
+    try {
+      const agent = new Agent({ name: "named", passphrase: "correct horse", storage: new MemoryStorage() });
+      expect(agent.address).toEqual(identity.address);
+      expect(agent.walletAddress).toEqual(keystore.wallet("named").address());
+    } finally {
+      jest.restoreAllMocks();
+    }
+    expect(() => new Keystore(dir, "wrong").list()).toThrow("Unable to decrypt");
+  });
+});
+
+function buildAgent(options: AgentOptions): Agent {
+  return new Agent({ ...options, port: 0, resolver: new RulesBasedResolver({}), storage: new MemoryStorage() });
+}
+
+describe("Key rotation", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "rotation-"));
+    jest.spyOn(process, "cwd").mockReturnValue(dir);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should move the agent to a new identity and publish a moved-to record", async () => {
+    const policy = new RecordingRegistrationPolicy();
+    const agent = buildAgent({ name: "rotating", registrationPolicy: policy });
+    const previousAddress = agent.address;
+    await agent.setup();
+
+    const record = await agent.rotateKeys({ gracePeriodSeconds: 60 });
+    await agent.stop();
+
+    expect(agent.address).not.toEqual(previousAddress);
+    expect(record.agent_identifier).toEqual(previousAddress);
+    expect(record.moved_to).toEqual(agent.address);
+    expect(() => record.verify()).not.toThrow();
+    expect(new Keystore(dir, null).get("rotating").address).toEqual(agent.address);
+    expect(dispatcher.contains(previousAddress)).toBe(true);
+    expect(dispatcher.contains(agent.address)).toBe(true);
+
+    expect(policy.registrations.map((registration) => registration.address)).toEqual([
+      previousAddress,
+      agent.address,
+      previousAddress,
+    ]);
+    const published = MovedToRecord.fromJSON(policy.registrations[2]!.metadata!.moved_to!);
+    expect(published).toEqual(record);
+  });
+
+  it("should keep the previous keys through a restart during the grace period", async () => {
+    const agent = buildAgent({ name: "restarting", registrationPolicy: new RecordingRegistrationPolicy() });
+    const previousAddress = agent.address;
+    await agent.setup();
+    const record = await agent.rotateKeys({ gracePeriodSeconds: 60 });
+    await agent.stop();
+    dispatcher.unregister(previousAddress, agent);
+    dispatcher.unregister(agent.address, agent);
+
+    const policy = new RecordingRegistrationPolicy();
+    const restarted = buildAgent({ name: "restarting", registrationPolicy: policy });
+    await restarted.setup();
+    await restarted.stop();
+
+    expect(restarted.address).toEqual(record.moved_to);
+    expect(dispatcher.contains(previousAddress)).toBe(true);
+    expect(policy.registrations.map((registration) => registration.address)).toEqual([
+      restarted.address,
+      previousAddress,
+    ]);
+    expect(MovedToRecord.fromJSON(policy.registrations[1]!.metadata!.moved_to!)).toEqual(record);
+
+    const sender = Identity.generate();
+    const env = new Envelope({ version: 1, sender: sender.address, target: previousAddress, session: "s", schemaDigest: "d" });
+    env.encryptPayload("for the previous address");
+    expect(await restarted.decryptPayload(env)).toEqual("for the previous address");
+
+    const [previous] = new Keystore(dir, null).previous("restarting");
+    expect(previous!.identity.address).toEqual(previousAddress);
+    expect(previous!.expires).toEqual(record.expires);
+  });
+
+  it("should rotate seeded agents in memory only", async () => {
+    const agent = buildAgent({ seed: "rotation seed", registrationPolicy: new RecordingRegistrationPolicy() });
+    const identity = Identity.generate();
+    await agent.setup();
+
+    await agent.rotateKeys({ signer: identity });
+    await agent.stop();
+
+    expect(agent.address).toEqual(identity.address);
+    expect(fs.existsSync(path.join(dir, "private_keys.json"))).toBe(false);
+  });
+});
+
+describe("Moved-to records", () => {
+  const previous = Identity.generate();
+  const next = Identity.generate();
+  const agents: Record<string, any> = {};
+  let server: http.Server;
+  let resolver: AlmanacApiResolver;
+
+  function registerAgent(address: string, url: string, metadata: Record<string, string> | null = null): void {
+    agents[address] = {
+      expiry: new Date(Date.now() + 3600 * 1000).toISOString(),
+      endpoints: [{ url, weight: 1 }],
+      metadata,
+    };
+  }
+
+  async function publishRecord(expires: number, signer: Identity = previous): Promise<void> {
+    const record = new MovedToRecord(previous.address, next.address, expires);
+    await record.sign(signer);
+    registerAgent(previous.address, "http://previous.example/submit", { moved_to: JSON.stringify(record) });
+  }
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const agent = agents[req.url!.split("/").pop()!];
+      res.writeHead(agent ? 200 : 404, { "content-type": "application/json" });
+      res.end(JSON.stringify(agent ?? {}));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    resolver = new AlmanacApiResolver(undefined, `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    registerAgent(next.address, "http://next.example/submit");
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should let peers follow the previous address to the new one", async () => {
+    await publishRecord(Math.floor(Date.now() / 1000) + 60);
+
+    expect(await resolver.resolve(previous.address)).toEqual([next.address, ["http://next.example/submit"]]);
+  });
+
+  it("should ignore expired and forged records", async () => {
+    await publishRecord(Math.floor(Date.now() / 1000) - 1);
+    expect(await resolver.resolve(previous.address)).toEqual([previous.address, ["http://previous.example/submit"]]);
+
+    await publishRecord(Math.floor(Date.now() / 1000) + 60, Identity.generate());
+    expect(await resolver.resolve(previous.address)).toEqual([previous.address, ["http://previous.example/submit"]]);
+  });
+
+  describe("in the Almanac contract", () => {
+    const records: Record<string, any> = {};
+
+    function registerContractAgent(address: string, url: string, metadata: Record<string, string> | null = null): void {
+      records[address] = { record: { service: { protocols: [], endpoints: [{ url, weight: 1 }] }, metadata } };
+    }
+
+    beforeEach(() => {
+      const contract: Pick<Network.AlmanacContract, "queryContract"> = {
+        queryContract: async (msg) => records[msg.query_record.agent_address] ?? { record: null },
+      };
+      jest.spyOn(Network, "getAlmanacContract").mockResolvedValue(contract as Network.AlmanacContract);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      Object.keys(records).forEach((address) => delete records[address]);
+    });
+
+    it("should follow verified records registered in the contract", async () => {
+      const moved = Identity.generate();
+      const record = new MovedToRecord(moved.address, next.address, Math.floor(Date.now() / 1000) + 60);
+      await record.sign(moved);
+      registerContractAgent(moved.address, "http://moved.example/submit", { moved_to: JSON.stringify(record) });
+      registerContractAgent(next.address, "http://next.contract.example/submit");
+
+      const contractResolver = new AlmanacContractResolver();
+      expect(await contractResolver.resolve(moved.address)).toEqual([next.address, ["http://next.contract.example/submit"]]);
+      expect(await resolver.resolve(moved.address)).toEqual([next.address, ["http://next.contract.example/submit"]]);
+
+      const forged = new MovedToRecord(moved.address, next.address, Math.floor(Date.now() / 1000) + 60);
+      await forged.sign(Identity.generate());
+      registerContractAgent(moved.address, "http://moved.example/submit", { moved_to: JSON.stringify(forged) });
+      expect(await contractResolver.resolve(moved.address)).toEqual([moved.address, ["http://moved.example/submit"]]);
+    });
+
+    it("should resolve new addresses missing from the API in the contract", async () => {
+      const moved = Identity.generate();
+      const target = Identity.generate();
+      const record = new MovedToRecord(moved.address, target.address, Math.floor(Date.now() / 1000) + 60);
+      await record.sign(moved);
+      registerAgent(moved.address, "http://moved.example/submit", { moved_to: JSON.stringify(record) });
+      registerContractAgent(target.address, "http://target.contract.example/submit");
+
+      expect(await resolver.resolve(moved.address)).toEqual([target.address, ["http://target.contract.example/submit"]]);
+    });
+  });
+});
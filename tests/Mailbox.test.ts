@@ -0,0 +1,193 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import http from "http";
+import { sha256 } from "js-sha256";
+import { AddressInfo } from "net";
+import { z } from "zod";
+import { Agent } from "../src/Agent";
+import { Context } from "../src/Context";
+import { Identity } from "../src/crypto";
+import { dispatcher } from "../src/Dispatch";
+import { Envelope } from "../src/Envelope";
+import { Model } from "../src/model";
+import { AgentRegistrationPolicy } from "../src/Registration";
+import { RulesBasedResolver } from "../src/Resolver";
+import { KeyValueStore } from "../src/Storage";
+
+class NoopRegistrationPolicy extends AgentRegistrationPolicy {
+  async register(): Promise<void> {}
+}
+
+const Note = new Model(z.object({ text: z.string() }).openapi({ title: "Note" }));
+
+/**
+ * A stand-in for the Agentverse mailbox API.
+ */
+class MailboxServer {
+  server: http.Server;
+  stored: Map<string, object> = new Map();
+  challenges: Map<string, string> = new Map();
+  tokens: Set<string> = new Set();
+  authentications = 0;
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        const body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString("utf-8")) : null;
+        const [status, response] = this.handle(req, body);
+        res.writeHead(status, { "content-type": "application/json" });
+        res.end(JSON.stringify(response));
+      });
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  handle(req: http.IncomingMessage, body: any): [number, object] {
+    if (req.method === "POST" && req.url === "/v1/auth/challenge") {
+      const challenge = `challenge-${this.challenges.size}`;
+      this.challenges.set(body.address, challenge);
+      return [200, { challenge }];
+    }
+    if (req.method === "POST" && req.url === "/v1/auth/prove") {
+      const digest = Buffer.from(sha256.create().update(body.challenge).digest());
+      try {
+        if (this.challenges.get(body.address) !== body.challenge) {
+          throw new Error("unknown challenge");
+        }
+        Identity.verifyDigest(body.address, digest, body.challenge_response);
+      } catch {
+        return [401, { detail: "invalid challenge response" }];
+      }
+      const token = `token-${++this.authentications}`;
+      this.tokens.add(token);
+      return [200, { access_token: token }];
+    }
+
+    const token = (req.headers.authorization || "").replace("Bearer ", "");
+    if (!this.tokens.has(token)) {
+      return [401, { detail: "unauthorized" }];
+    }
+    if (req.method === "GET" && req.url === "/v1/mailbox") {
+      const items = Array.from(this.stored.entries()).map(([uuid, envelope]) => ({ uuid, envelope }));
+      return [200, { items }];
+    }
+    if (req.method === "DELETE" && req.url?.startsWith("/v1/mailbox/")) {
+      this.stored.delete(req.url.slice("/v1/mailbox/".length));
+      return [200, {}];
+    }
+    return [404, { detail: "not found" }];
+  }
+}
+
+async function buildEnvelope(sender: Identity, target: string, text: string): Promise<object> {
+  const env = new Envelope({
+    version: 1,
+    sender: sender.getAddress,
+    target,
+    session: "0b9d2f4c-6a1e-4c8b-9e3f-7d5a2c1b0e9f",
+    schemaDigest: Model.buildSchemaDigest(Note),
+    expires: Math.floor(Date.now() / 1000) + 30,
+  });
+  env.encodePayload(JSON.stringify({ text }));
+  await env.sign(sender);
+  return env.toJSON();
+}
+
+describe("MailboxClient", () => {
+  const mailbox = new MailboxServer();
+  const sender = Identity.generate();
+  const received: string[] = [];
+  let agent: Agent;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => mailbox.server.listen(0, resolve));
+    agent = new Agent({
+      seed: "mailbox client test seed",
+      resolver: new RulesBasedResolver({}),
+      storage: new KeyValueStore("mailbox_test"),
+      registrationPolicy: new NoopRegistrationPolicy(),
+      agentverse: `mailbox-key@${mailbox.url}`,
+    });
+    agent.onMessage(Note)(async (ctx: Context, from: string, msg: any) => {
+      received.push(msg.text);
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => mailbox.server.close(() => resolve()));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should register the mailbox endpoint", () => {
+    expect(agent.endpoints).toEqual([{ url: `${mailbox.url}/v1/submit`, weight: 1 }]);
+  });
+
+  it("should dispatch and delete stored envelopes", async () => {
+    mailbox.stored.set("1", await buildEnvelope(sender, agent.address, "first"));
+    mailbox.stored.set("2", await buildEnvelope(sender, agent.address, "second"));
+
+    await agent.mailboxClient!.poll();
+
+    expect(mailbox.authentications).toBe(1);
+    expect(received).toEqual(["first", "second"]);
+    expect(mailbox.stored.size).toBe(0);
+  });
+
+  it("should delete envelopes that fail verification without dispatching them", async () => {
+    const tampered = await buildEnvelope(sender, agent.address, "tampered") as any;
+    tampered.payload = Buffer.from(JSON.stringify({ text: "changed" })).toString("base64");
+    mailbox.stored.set("3", tampered);
+
+    await agent.mailboxClient!.poll();
+
+    expect(received).not.toContain("changed");
+    expect(mailbox.stored.size).toBe(0);
+  });
+
+  it("should retry envelopes failing to be dispatched without blocking the others", async () => {
+    const dispatch = dispatcher.dispatchMsg.bind(dispatcher);
+    let flaked = false;
+    jest.spyOn(dispatcher, "dispatchMsg").mockImplementation(async (...args) => {
+      const text = JSON.parse(args[3]).text;
+      if (text === "broken" || (text === "flaky" && !flaked)) {
+        flaked = flaked || text === "flaky";
+        throw new Error(`${text} dispatch`);
+      }
+      await dispatch(...args);
+    });
+    mailbox.stored.set("5", await buildEnvelope(sender, agent.address, "broken"));
+    mailbox.stored.set("6", await buildEnvelope(sender, agent.address, "flaky"));
+    mailbox.stored.set("7", await buildEnvelope(sender, agent.address, "healthy"));
+
+    await agent.mailboxClient!.poll();
+    expect(received).toContain("healthy");
+    expect(Array.from(mailbox.stored.keys())).toEqual(["5", "6"]);
+
+    await agent.mailboxClient!.poll();
+    expect(received).toContain("flaky");
+    expect(Array.from(mailbox.stored.keys())).toEqual(["5"]);
+
+    await agent.mailboxClient!.poll();
+    expect(mailbox.stored.size).toBe(0);
+    expect(received).not.toContain("broken");
+  });
+
+  it("should authenticate again once the access token expires", async () => {
+    mailbox.tokens.clear();
+    mailbox.stored.set("4", await buildEnvelope(sender, agent.address, "after expiry"));
+
+    await agent.mailboxClient!.poll();
+    expect(received).not.toContain("after expiry");
+
+    await agent.mailboxClient!.poll();
+    expect(mailbox.authentications).toBe(2);
+    expect(received).toContain("after expiry");
+  });
+});
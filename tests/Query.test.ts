@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { z } from "zod";
+import { Agent } from "../src/Agent";
+import { Context } from "../src/Context";
+import { Identity } from "../src/crypto";
+import { Model } from "../src/model";
+import { query } from "../src/Query";
+import { AgentRegistrationPolicy } from "../src/Registration";
+import { RulesBasedResolver } from "../src/Resolver";
+import { MemoryStorage } from "../src/Storage";
+import { DeliveryStatus } from "../src/types";
+
+class NoopRegistrationPolicy extends AgentRegistrationPolicy {
+  async register(): Promise<void> {}
+}
+
+const Question = new Model(z.object({ value: z.number() }).openapi({ title: "Question" }));
+const Answer = new Model(z.object({ doubled: z.number() }).openapi({ title: "Answer" }));
+const Other = new Model(z.object({ other: z.string() }).openapi({ title: "Other" }));
+
+describe("query", () => {
+  const agent = new Agent({
+    seed: "query test seed",
+    port: 0,
+    resolver: new RulesBasedResolver({}),
+    storage: new MemoryStorage(),
+    registrationPolicy: new NoopRegistrationPolicy(),
+  });
+  let resolver: RulesBasedResolver;
+
+  agent.onQuery(Question)(async (ctx: Context, from: string, msg: any) => {
+    if (msg.value < 0) {
+      await ctx.sendRaw(from, Model.buildSchemaDigest(Other), JSON.stringify({ other: "negative" }));
+      return;
+    }
+    await ctx.sendRaw(from, Model.buildSchemaDigest(Answer), JSON.stringify({ doubled: msg.value * 2 }));
+  });
+
+  beforeAll(async () => {
+    await agent.setup();
+    resolver = new RulesBasedResolver({
+      [agent.address]: [`http://127.0.0.1:${agent.port}/submit`],
+    });
+  });
+
+  afterAll(async () => {
+    await agent.stop();
+  });
+
+  it("should return the typed response", async () => {
+    const result = await query(agent.address, Question, { value: 21 }, Answer, { resolver });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data).toEqual({ doubled: 42 });
+      expect(result.envelope.sender).toEqual(agent.address);
+    }
+  });
+
+  it("should accept signed queries", async () => {
+    const result = await query(agent.address, Question, { value: 1 }, Answer, {
+      resolver,
+      sender: Identity.generate(),
+    });
+
+    expect(result).toMatchObject({ ok: true, data: { doubled: 2 } });
+  });
+
+  it("should reject responses with another schema", async () => {
+    const result = await query(agent.address, Question, { value: -1 }, Answer, { resolver });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.status.status).toEqual(DeliveryStatus.FAILED);
+      expect(result.status.detail).toContain("Unexpected response schema");
+    }
+  });
+
+  it("should fail for unresolvable destinations", async () => {
+    const result = await query(Identity.generate().getAddress, Question, { value: 1 }, Answer, { resolver });
+
+    expect(result).toMatchObject({
+      ok: false,
+      status: { status: DeliveryStatus.FAILED, detail: "Failed to resolve destination address" },
+    });
+  });
+
+  it("should reject invalid messages without sending them", async () => {
+    const result = await query(agent.address, Question, { value: "1" } as any, Answer, { resolver });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.status.detail).toContain("Invalid message");
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { ChildProcessWithoutNullStreams, spawn } from "child_process";
+import * as readline from "readline";
+import { bech32 } from "bech32";
+import { Agent } from "../src/Agent";
+import { Identity, Signer, registrationDigest } from "../src/crypto";
+import { Envelope } from "../src/Envelope";
+import { AlmanacContractRecord } from "../src/Network";
+import { AgentRegistrationAttestation } from "../src/Registration";
+import { MemoryStorage } from "../src/Storage";
+import { Future } from "../src/utils";
+
+// A stand-in for an HSM: a separate process holding the key and signing the
+// digests it reads from stdin, one JSON request per line.
+const SIGNING_PROCESS = `
+const ec = new (require("elliptic").ec)("secp256k1");
+const key = ec.keyFromPrivate(process.env.SIGNER_KEY, "hex");
+const hex = (n) => n.toString(16).padStart(64, "0");
+console.log(JSON.stringify({ publicKey: key.getPublic(true, "hex") }));
+require("readline").createInterface({ input: process.stdin }).on("line", (line) => {
+  const { id, digest } = JSON.parse(line);
+  const signature = key.sign(Buffer.from(digest, "hex"), { canonical: true });
+  console.log(JSON.stringify({ id, signature: hex(signature.r) + hex(signature.s) }));
+});
+`;
+
+class ProcessSigner implements Signer {
+  readonly address: string;
+  readonly publicKey: string;
+  private _requests = new Map<number, Future<string>>();
+  private _nextId = 0;
+
+  private constructor(private _process: ChildProcessWithoutNullStreams, publicKey: string, lines: readline.Interface) {
+    this.publicKey = publicKey;
+    this.address = bech32.encode("agent", bech32.toWords(Buffer.from(publicKey, "hex")));
+    lines.on("line", (line) => {
+      const { id, signature } = JSON.parse(line);
+      this._requests.get(id)?.setResult(bech32.encode("sig", bech32.toWords(Buffer.from(signature, "hex")), 1000));
+      this._requests.delete(id);
+    });
+  }
+
+  static async start(privateKey: string): Promise<ProcessSigner> {
+    const child = spawn(process.execPath, ["-e", SIGNING_PROCESS], {
+      env: { ...process.env, SIGNER_KEY: privateKey },
+    });
+    const lines = readline.createInterface({ input: child.stdout });
+    const [first] = await new Promise<string[]>((resolve) => lines.once("line", (line) => resolve([line])));
+    return new ProcessSigner(child, JSON.parse(first!).publicKey, lines);
+  }
+
+  async signDigest(digest: Buffer): Promise<string> {
+    const id = this._nextId++;
+    const signature = new Future<string>();
+    this._requests.set(id, signature);
+    this._process.stdin.write(`${JSON.stringify({ id, digest: digest.toString("hex") })}\n`);
+    return await signature.promise;
+  }
+
+  stop(): void {
+    this._process.kill();
+  }
+}
+
+describe("Signer", () => {
+  const identity = Identity.fromSeed("external signer seed", 0);
+  let signer: ProcessSigner;
+
+  beforeAll(async () => {
+    signer = await ProcessSigner.start(identity.privateKey);
+  });
+
+  afterAll(() => {
+    signer.stop();
+  });
+
+  it("should sign for the address of the key it holds", async () => {
+    expect(signer.address).toEqual(identity.address);
+    expect(signer.publicKey).toEqual(identity.publicKey);
+
+    const digest = Buffer.alloc(32, 7);
+    expect(await signer.signDigest(digest)).toEqual(await identity.signDigest(digest));
+  });
+
+  it("should sign envelopes", async () => {
+    const env = new Envelope({
+      version: 1,
+      sender: signer.address,
+      target: Identity.generate().address,
+      session: "3f2b1c0d-9e8f-4a7b-8c6d-5e4f3a2b1c0d",
+      schemaDigest: "model:note",
+    });
+    env.encodePayload(JSON.stringify({ text: "signed elsewhere" }));
+    await env.sign(signer);
+
+    expect(() => env.verify()).not.toThrow();
+  });
+
+  it("should sign registration attestations and Almanac records", async () => {
+    const attestation = new AgentRegistrationAttestation(signer.address, ["proto:a"], []);
+    await attestation.sign(signer);
+    expect(() => attestation.verify()).not.toThrow();
+
+    const record = new AlmanacContractRecord({
+      agent_address: signer.address,
+      contract_address: "fetch1contract",
+      sender_address: "fetch1wallet",
+      endpoints: [],
+      protocols: [],
+    });
+    await record.sign(signer);
+    const digest = registrationDigest("fetch1contract", signer.address, record.timestamp!, "fetch1wallet");
+    expect(() => Identity.verifyDigest(signer.address, digest, record.signature!)).not.toThrow();
+  });
+
+  it("should run an agent without its key in memory", async () => {
+    const agent = new Agent({ signer, storage: new MemoryStorage() });
+
+    expect(agent.address).toEqual(signer.address);
+    expect(agent.signer).toBe(signer);
+    const digest = Buffer.alloc(32, 9);
+    const signature = await agent.signDigest(digest);
+    expect(() => Identity.verifyDigest(agent.address, digest, signature)).not.toThrow();
+
+    expect(() => new Agent({ signer, seed: "agent seed" })).toThrow("either a signer");
+  });
+});
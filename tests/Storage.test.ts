@@ -1,6 +1,27 @@
+import { jest } from '@jest/globals';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { KeyValueStore } from '../src/Storage';
+import { z } from 'zod';
+import { Agent } from '../src/Agent';
+import { Context } from '../src/Context';
+import { DecryptionError } from '../src/crypto';
+import { Model } from '../src/model';
+import { AgentRegistrationPolicy } from '../src/Registration';
+import { RulesBasedResolver } from '../src/Resolver';
+import {
+  ContextStorage,
+  INTERNAL_KEY_PREFIX,
+  KeyValueStore,
+  MemoryStorage,
+  RedisClient,
+  RedisStorage,
+  SQLiteDatabase,
+  SQLiteStorage,
+  StorageAPI,
+  createStorage,
+  getOrCreatePrivateKeys,
+} from '../src/Storage';
 
 describe('KeyValueStore', () => {
   const name = 'test';
@@ -21,18 +42,20 @@ describe('KeyValueStore', () => {
     expect(fs.existsSync(filename)).toBe(false);
   });
 
-  test('should create file after setting a value', () => {
+  test('should create file after setting a value', async () => {
     const storage = new KeyValueStore(name);
 
     storage.set(key, value);
+    await storage.flush();
     expect(fs.existsSync(filename)).toBe(true);
   });
 
-  test('should set and get a value', () => {
+  test('should set and get a value', async () => {
     const storage = new KeyValueStore(name);
     const store = { [key]: value };
 
     storage.set(key, value);
+    await storage.flush();
     expect(fs.existsSync(filename)).toBe(true);
     expect(storage.get(key)).toBe(value);
 
@@ -40,12 +63,13 @@ describe('KeyValueStore', () => {
     expect(data).toEqual(store);
   });
 
-  test('should update a value', () => {
+  test('should update a value', async () => {
     const storage = new KeyValueStore(name);
     const newValue = 'new_value';
 
     storage.set(key, newValue);
     expect(storage.get(key)).toBe(newValue);
+    await storage.flush();
   });
 
   test('should remove a key', () => {
@@ -54,4 +78,468 @@ describe('KeyValueStore', () => {
     storage.remove(key);
     expect(storage.get(key)).toBeNull();
   });
+
+  test('should return falsy values and defaults', async () => {
+    const storage = new KeyValueStore(name);
+
+    storage.set('zero', 0);
+    storage.set('false', false);
+    storage.set('empty', '');
+    expect(storage.get('zero')).toBe(0);
+    expect(storage.get('false')).toBe(false);
+    expect(storage.get('empty')).toBe('');
+    expect(storage.get('missing', 5)).toBe(5);
+    expect(storage.get('zero', 5)).toBe(0);
+    expect(storage.has('toString')).toBe(false);
+    await storage.flush();
+  });
+
+  test('should coalesce writes until the write delay has passed', async () => {
+    const storage = new KeyValueStore(name, null, 0.05);
+
+    storage.set('first', 1);
+    storage.set('second', 2);
+    expect(fs.existsSync(filename)).toBe(false);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await storage.flush();
+    expect(JSON.parse(fs.readFileSync(filename, 'utf-8'))).toEqual({ first: 1, second: 2 });
+    expect(fs.existsSync(`${filename}.tmp`)).toBe(false);
+  });
+
+  test('should apply transactions together or not at all', async () => {
+    const storage = new KeyValueStore(name);
+    storage.set('balance', 10);
+
+    const result = storage.transaction((store) => {
+      store.set('balance', store.get('balance') - 3);
+      store.set('spent', 3);
+      return 'done';
+    });
+    expect(result).toBe('done');
+
+    expect(() => storage.transaction((store) => {
+      store.set('balance', 0);
+      store.remove('spent');
+      throw new Error('abort');
+    })).toThrow('abort');
+
+    await storage.flush();
+    expect(storage.get('balance')).toBe(7);
+    expect(JSON.parse(fs.readFileSync(filename, 'utf-8'))).toEqual({ balance: 7, spent: 3 });
+  });
+
+  test('should recover from a corrupted file', () => {
+    fs.writeFileSync(filename, '{"key": "val', 'utf-8');
+
+    const storage = new KeyValueStore(name);
+
+    expect(storage.has(key)).toBe(false);
+    expect(fs.existsSync(`${filename}.corrupted`)).toBe(true);
+    fs.unlinkSync(`${filename}.corrupted`);
+  });
+
+  test('should not treat unreadable files as corrupted', () => {
+    fs.mkdirSync(filename);
+
+    try {
+      expect(() => new KeyValueStore(name)).toThrow('EISDIR');
+      expect(fs.statSync(filename).isDirectory()).toBe(true);
+      expect(fs.existsSync(`${filename}.corrupted`)).toBe(false);
+    } finally {
+      fs.rmdirSync(filename);
+    }
+  });
+
+  test('should recover the data of an interrupted write', async () => {
+    fs.writeFileSync(`${filename}.tmp`, JSON.stringify({ [key]: value }), 'utf-8');
+
+    const storage = new KeyValueStore(name);
+    await storage.flush();
+
+    expect(storage.get(key)).toBe(value);
+    expect(fs.existsSync(`${filename}.tmp`)).toBe(false);
+    expect(JSON.parse(fs.readFileSync(filename, 'utf-8'))).toEqual({ [key]: value });
+  });
+});
+
+/**
+ * A stand-in for a Redis server, keeping hashes in memory.
+ */
+class FakeRedis implements RedisClient {
+  hashes: Map<string, Map<string, string>> = new Map();
+  failing = false;
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) ?? new Map());
+  }
+
+  async hset(key: string, field: string, value: string): Promise<number> {
+    if (this.failing) {
+      throw new Error('connection lost');
+    }
+    const hash = this.hashes.get(key) ?? new Map();
+    hash.set(field, value);
+    this.hashes.set(key, hash);
+    return 1;
+  }
+
+  async hdel(key: string, field: string): Promise<number> {
+    return this.hashes.get(key)?.delete(field) ? 1 : 0;
+  }
+
+  async del(key: string): Promise<number> {
+    return this.hashes.delete(key) ? 1 : 0;
+  }
+}
+
+function exerciseStorage(storage: StorageAPI): void {
+  storage.set('key', { nested: [1, 2] });
+  storage.set('other', 'value');
+  storage.set('zero', 0);
+  expect(storage.get('key')).toEqual({ nested: [1, 2] });
+  expect(storage.get('zero')).toBe(0);
+  expect(storage.has('other')).toBe(true);
+  expect(storage.keys().sort()).toEqual(['key', 'other', 'zero']);
+
+  storage.remove('other');
+  expect(storage.has('other')).toBe(false);
+  expect(storage.get('other')).toBeNull();
+
+  storage.clear();
+  expect(storage.has('key')).toBe(false);
+}
+
+describe('MemoryStorage', () => {
+  test('should set, get and remove values', () => {
+    exerciseStorage(new MemoryStorage());
+  });
+});
+
+describe('RedisStorage', () => {
+  test('should set, get and remove values', async () => {
+    const redis = new FakeRedis();
+    const storage = new RedisStorage(redis, 'agent');
+
+    exerciseStorage(storage);
+    await storage.flush();
+    expect(redis.hashes.has('agent')).toBe(false);
+  });
+
+  test('should write through and load the data in a new store', async () => {
+    const redis = new FakeRedis();
+    const storage = new RedisStorage(redis, 'agent');
+    storage.set('counter', 3);
+    storage.set('removed', true);
+    storage.remove('removed');
+    await storage.flush();
+
+    expect(redis.hashes.get('agent')).toEqual(new Map([['counter', '3']]));
+
+    const reloaded = new RedisStorage(redis, 'agent');
+    await reloaded.load();
+    expect(reloaded.get('counter')).toBe(3);
+    expect(reloaded.has('removed')).toBe(false);
+  });
+
+  test('should report failed writes on flush', async () => {
+    const redis = new FakeRedis();
+    const storage = new RedisStorage(redis, 'agent');
+    redis.failing = true;
+    storage.set('key', 'value');
+
+    await expect(storage.flush()).rejects.toThrow('connection lost');
+    await expect(storage.flush()).resolves.toBeUndefined();
+  });
+});
+
+let DatabaseSync: (new (path: string) => SQLiteDatabase) | null = null;
+try {
+  DatabaseSync = require('node:sqlite').DatabaseSync;
+} catch {
+  // node:sqlite is available from Node.js 22.5
+}
+
+(DatabaseSync ? describe : describe.skip)('SQLiteStorage', () => {
+  test('should set, get and remove values', () => {
+    exerciseStorage(new SQLiteStorage(new DatabaseSync!(':memory:')));
+  });
+
+  test('should keep separate tables apart', () => {
+    const database = new DatabaseSync!(':memory:');
+    const first = new SQLiteStorage(database, 'first');
+    const second = new SQLiteStorage(database, 'second');
+
+    first.set('key', 1);
+    expect(second.has('key')).toBe(false);
+    expect(new SQLiteStorage(database, 'first').get('key')).toBe(1);
+  });
+});
+
+describe('createStorage', () => {
+  test('should select the storage from the configuration', () => {
+    const memory = new MemoryStorage();
+
+    expect(createStorage(memory, 'name')).toBe(memory);
+    expect(createStorage({ type: 'memory' }, 'name')).toBeInstanceOf(MemoryStorage);
+    expect(createStorage({ type: 'redis', client: new FakeRedis() }, 'name')).toBeInstanceOf(RedisStorage);
+    expect(createStorage({ type: 'file', name: 'test' }, 'name')).toBeInstanceOf(KeyValueStore);
+  });
+
+  test('should give the configured storage to the agent', async () => {
+    const redis = new FakeRedis();
+    redis.hashes.set('storage_test_agent', new Map([['greeting', '"hello"']]));
+    const agent = new Agent({
+      seed: 'storage config test seed',
+      port: 0,
+      storage: { type: 'redis', client: redis, key: 'storage_test_agent' },
+    });
+
+    await agent.storage.load!();
+    expect(agent.storage).toBeInstanceOf(RedisStorage);
+    expect(agent.storage.get('greeting')).toBe('hello');
+  });
+});
+
+describe('encryption at rest', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'encrypted-'));
+    jest.spyOn(process, 'cwd').mockReturnValue(dir);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should encrypt the store file', async () => {
+    const storage = new KeyValueStore('secret', dir, undefined, 'correct horse');
+    storage.set('token', 'plaintext-token');
+    await storage.flush();
+
+    const content = fs.readFileSync(path.join(dir, 'secret_data.json'), 'utf-8');
+    expect(content).not.toContain('plaintext-token');
+    expect(JSON.parse(content).cipher).toBe('aes-256-gcm');
+    expect(new KeyValueStore('secret', dir, undefined, 'correct horse').get('token')).toBe('plaintext-token');
+  });
+
+  test('should report a missing or wrong passphrase', async () => {
+    const storage = new KeyValueStore('secret', dir, undefined, 'correct horse');
+    storage.set('token', 'value');
+    await storage.flush();
+
+    expect(() => new KeyValueStore('secret', dir, undefined, 'wrong')).toThrow(DecryptionError);
+    expect(() => new KeyValueStore('secret', dir, undefined, null)).toThrow('UAGENTS_PASSPHRASE');
+    expect(fs.existsSync(path.join(dir, 'secret_data.json.corrupted'))).toBe(false);
+  });
+
+  test('should encrypt an existing plaintext store', async () => {
+    fs.writeFileSync(path.join(dir, 'legacy_data.json'), JSON.stringify({ token: 'value' }), 'utf-8');
+
+    const storage = new KeyValueStore('legacy', dir, undefined, 'correct horse');
+    expect(storage.get('token')).toBe('value');
+    await storage.flush();
+
+    expect(fs.readFileSync(path.join(dir, 'legacy_data.json'), 'utf-8')).not.toContain('value');
+  });
+
+  test('should encrypt the private keys file', () => {
+    const [identityKey, walletKey] = getOrCreatePrivateKeys('alice', 'correct horse');
+
+    const content = fs.readFileSync(path.join(dir, 'private_keys.json'), 'utf-8');
+    expect(content).not.toContain(identityKey);
+    expect(content).not.toContain(walletKey);
+    expect(getOrCreatePrivateKeys('alice', 'correct horse')).toEqual([identityKey, walletKey]);
+    expect(() => getOrCreatePrivateKeys('alice', 'wrong')).toThrow(DecryptionError);
+    expect(() => getOrCreatePrivateKeys('alice', null)).toThrow('is encrypted');
+  });
+
+  test('should encrypt an existing plaintext private keys file', () => {
+    const [identityKey, walletKey] = getOrCreatePrivateKeys('bob', null);
+    expect(fs.readFileSync(path.join(dir, 'private_keys.json'), 'utf-8')).toContain(identityKey);
+
+    expect(getOrCreatePrivateKeys('bob', 'correct horse')).toEqual([identityKey, walletKey]);
+    expect(fs.readFileSync(path.join(dir, 'private_keys.json'), 'utf-8')).not.toContain(identityKey);
+  });
+
+  test('should read the passphrase from the environment', () => {
+    process.env.UAGENTS_PASSPHRASE = 'from the environment';
+    try {
+      const [identityKey] = getOrCreatePrivateKeys('carol');
+      expect(getOrCreatePrivateKeys('carol', 'from the environment')[0]).toEqual(identityKey);
+    } finally {
+      delete process.env.UAGENTS_PASSPHRASE;
+    }
+  });
+});
+
+class NoopRegistrationPolicy extends AgentRegistrationPolicy {
+  async register(): Promise<void> {}
+}
+
+describe('ContextStorage', () => {
+  const Counter = new Model(z.object({ count: z.number() }).openapi({ title: 'Counter' }));
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should keep namespaces apart', () => {
+    const backend = new MemoryStorage();
+    const storage = new ContextStorage(backend);
+    const first = storage.namespace('first:0.1.0');
+    const second = storage.namespace('second:0.1.0');
+
+    first.set('key', 1);
+    second.set('key', 2);
+    storage.set('key', 3);
+    expect(first.get('key')).toBe(1);
+    expect(second.get('key')).toBe(2);
+    expect(first.namespace('nested').has('key')).toBe(false);
+    expect(first.keys()).toEqual(['key']);
+
+    first.clear();
+    expect(first.has('key')).toBe(false);
+    expect(second.get('key')).toBe(2);
+    expect(storage.get('key')).toBe(3);
+  });
+
+  test('should hide the internal keys of the framework', () => {
+    const backend = new MemoryStorage();
+    const storage = new ContextStorage(backend);
+    backend.set(`${INTERNAL_KEY_PREFIX}outbox`, { pending: true });
+
+    storage.set('key', 1);
+    expect(storage.keys()).toEqual(['key']);
+    expect(storage.entries()).toEqual([['key', 1]]);
+    expect(() => storage.get(`${INTERNAL_KEY_PREFIX}outbox`)).toThrow('reserved');
+    expect(() => storage.set(`${INTERNAL_KEY_PREFIX}outbox`, null)).toThrow('reserved');
+    expect(() => storage.namespace('__uagents__')).toThrow('reserved');
+
+    storage.clear();
+    expect(storage.keys()).toEqual([]);
+    expect(backend.get(`${INTERNAL_KEY_PREFIX}outbox`)).toEqual({ pending: true });
+  });
+
+  test('should expire values lazily', () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const backend = new MemoryStorage();
+    const storage = new ContextStorage(backend).namespace('cache');
+
+    storage.set('session', 'token', { ttlSeconds: 10 });
+    storage.set('forever', 'value');
+    expect(storage.get('session')).toBe('token');
+
+    clock.mockReturnValue(now + 10_000);
+    expect(storage.has('session')).toBe(false);
+    expect(storage.get('session')).toBeNull();
+    expect(backend.keys()).toEqual(['cache/forever']);
+  });
+
+  test('should not mistake values shaped like expiring ones', () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const storage = new ContextStorage(new MemoryStorage());
+    const lookalike = { __expires__: now / 1000 - 1, value: 'kept' };
+
+    storage.set('lookalike', lookalike);
+    clock.mockReturnValue(now + 10_000);
+    expect(storage.purgeExpired()).toBe(0);
+    expect(storage.get('lookalike')).toEqual(lookalike);
+  });
+
+  test('should purge expired values', () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const backend = new MemoryStorage();
+    const storage = new ContextStorage(backend);
+
+    storage.set('short', 1, { ttlSeconds: 1 });
+    storage.namespace('other').set('long', 2, { ttlSeconds: 60 });
+    expect(() => storage.set('invalid', 3, { ttlSeconds: 0 })).toThrow('Invalid TTL');
+
+    clock.mockReturnValue(now + 2_000);
+    expect(storage.purgeExpired()).toBe(1);
+    expect(backend.keys()).toEqual(['other/long']);
+  });
+
+  test('should validate values against their model', () => {
+    const storage = new ContextStorage(new MemoryStorage());
+    storage.set('counter', { count: 3 });
+    storage.set('broken', { count: 'three' });
+
+    expect(storage.get('counter', Counter)).toEqual({ count: 3 });
+    expect(storage.get('missing', Counter)).toBeNull();
+    expect(() => storage.get('broken', Counter)).toThrow('does not match its model');
+  });
+
+  test('should return defaults, entries and counters', () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const storage = new ContextStorage(new MemoryStorage()).namespace('counters');
+
+    expect(storage.get('visits', 0)).toBe(0);
+    expect(storage.get('missing', Counter, { count: 1 })).toEqual({ count: 1 });
+    expect(storage.increment('visits')).toBe(1);
+    expect(storage.increment('visits', 4)).toBe(5);
+    storage.set('flag', false);
+    expect(storage.get('flag', true)).toBe(false);
+    expect(storage.entries()).toEqual([['visits', 5], ['flag', false]]);
+
+    storage.set('session', 1, { ttlSeconds: 10 });
+    expect(storage.increment('session')).toBe(2);
+    clock.mockReturnValue(now + 10_000);
+    expect(storage.has('session')).toBe(false);
+
+    storage.set('name', 'alice');
+    expect(() => storage.increment('name')).toThrow('not a number');
+  });
+
+  test('should notify listeners of changes from any view', async () => {
+    const backend = new MemoryStorage();
+    const root = new ContextStorage(backend);
+    const changes: Array<[any, any]> = [];
+    const unsubscribe = root.namespace('protocol').onChange('count', (value, previous) => {
+      changes.push([value, previous]);
+    });
+    root.namespace('protocol').onChange('count', () => {
+      throw new Error('listener failure');
+    });
+
+    const other = root.namespace('protocol');
+    other.set('count', 1);
+    other.increment('count');
+    root.namespace('elsewhere').set('count', 10);
+    other.remove('count');
+    unsubscribe();
+    other.set('count', 3);
+
+    expect(changes).toEqual([[1, null], [2, 1], [null, 2]]);
+    expect(other.get('count')).toBe(3);
+  });
+
+  test('should be the storage of handler contexts', async () => {
+    const backend = new MemoryStorage();
+    const agent = new Agent({
+      seed: 'context storage test seed',
+      port: 0,
+      resolver: new RulesBasedResolver({}),
+      storage: backend,
+      registrationPolicy: new NoopRegistrationPolicy(),
+    });
+    let contextStorage: unknown = null;
+    agent.onEvent('startup')(async (ctx: Context) => {
+      contextStorage = ctx.storage;
+      ctx.storage.namespace('protocol:0.1.0').set('seen', true);
+    });
+
+    await agent.setup();
+    await agent.stop();
+
+    expect(contextStorage).toBeInstanceOf(ContextStorage);
+    expect(backend.get('protocol:0.1.0/seen')).toBe(true);
+  });
 });
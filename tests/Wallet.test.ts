@@ -0,0 +1,260 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { SigningCosmWasmClient } from "@cosmjs/cosmwasm-stargate";
+import { DeliverTxResponse } from "@cosmjs/stargate";
+import { randomUUID } from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { Agent } from "../src/Agent";
+import { Context } from "../src/Context";
+import { Identity } from "../src/crypto";
+import { AgentRegistrationPolicy } from "../src/Registration";
+import { RulesBasedResolver } from "../src/Resolver";
+import { KeyValueStore } from "../src/Storage";
+import {
+  FetchWalletMessagingTransport,
+  InMemoryWalletMessagingTransport,
+  LocalWallet,
+  WalletMessage,
+  WalletMessagingClient,
+  WalletMessagingTransport,
+} from "../src/Wallet";
+
+class NoopRegistrationPolicy extends AgentRegistrationPolicy {
+  async register(): Promise<void> {}
+}
+
+function buildAgent(seed: string, walletMessaging: WalletMessagingTransport): Agent {
+  return new Agent({
+    seed,
+    port: 0,
+    resolver: new RulesBasedResolver({}),
+    storage: new KeyValueStore("wallet_test"),
+    registrationPolicy: new NoopRegistrationPolicy(),
+    walletMessaging,
+  });
+}
+
+describe("WalletMessagingClient", () => {
+  it("should derive the wallet address from the agent seed", () => {
+    const transport = new InMemoryWalletMessagingTransport();
+    const agent = buildAgent("wallet address seed", transport);
+
+    expect(agent.walletAddress.startsWith("fetch1")).toBe(true);
+    expect(agent.walletAddress).toEqual(buildAgent("wallet address seed", transport).walletAddress);
+    expect(agent.walletMessagingClient!.walletAddress).toEqual(agent.walletAddress);
+  });
+
+  it("should deliver wallet messages to the agent handlers", async () => {
+    const transport = new InMemoryWalletMessagingTransport();
+    const alice = buildAgent("wallet alice seed", transport);
+    const bob = buildAgent("wallet bob seed", transport);
+    const received: WalletMessage[] = [];
+
+    alice.onEvent("startup")(async (ctx: Context) => {
+      await ctx.sendWalletMessage(bob.walletAddress, "hello bob");
+    });
+    bob.onWalletMessage()(async (ctx: Context, message: WalletMessage) => {
+      received.push(message);
+    });
+
+    await alice.setup();
+    await bob.setup();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await Promise.all([alice.stop(), bob.stop()]);
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      sender: alice.walletAddress,
+      target: bob.walletAddress,
+      text: "hello bob",
+      msgType: 1,
+    });
+  });
+
+  it("should keep polling when the transport fails", async () => {
+    const transport: WalletMessagingTransport = {
+      send: async () => {},
+      receive: async () => {
+        throw new Error("unavailable");
+      },
+    };
+    const client = new WalletMessagingClient(LocalWallet.generate(), transport);
+    const handled: WalletMessage[] = [];
+
+    await expect(client.poll(async (message) => { handled.push(message); })).resolves.toBeUndefined();
+    expect(handled).toEqual([]);
+  });
+});
+
+type StoredMessage = { id: string; contents: string; commitTimestamp: string; sender: string; target?: string };
+
+/**
+ * Start a stand-in for the wallet messaging service, logging wallets in with
+ * their ADR-036 signature of a payload.
+ */
+async function startMessagingService(): Promise<{ server: http.Server; url: string; messages: StoredMessage[] }> {
+  const payloads: Map<string, string> = new Map();
+  const tokens: Map<string, string> = new Map();
+  const keys: Map<string, string> = new Map();
+  const messages: StoredMessage[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const body = JSON.parse(Buffer.concat(chunks).toString() || "{}");
+    const reply = (status: number, data: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(data));
+    };
+
+    if (req.url === "/auth/request_token") {
+      const payload = randomUUID();
+      payloads.set(body.address, payload);
+      return reply(200, { payload });
+    }
+    if (req.url === "/auth/login") {
+      try {
+        Identity.verifyArbitrary(body.address, Buffer.from(payloads.get(body.address) ?? ""), null, body.signature);
+      } catch {
+        return reply(401, { error: "invalid signature" });
+      }
+      const token = randomUUID();
+      tokens.set(token, body.address);
+      return reply(200, { token });
+    }
+
+    const address = tokens.get((req.headers.authorization ?? "").replace("Bearer ", ""));
+    if (!address) {
+      return reply(401, { error: "unauthorized" });
+    }
+    const { query, variables } = body;
+    if (query.includes("updatePublicKey")) {
+      keys.set(address, variables.publicKeyDetails.publicKey);
+      return reply(200, { data: { updatePublicKey: { publicKey: variables.publicKeyDetails.publicKey } } });
+    }
+    if (query.includes("publicKey(")) {
+      const publicKey = keys.get(variables.address);
+      return reply(200, { data: { publicKey: publicKey ? { publicKey } : null } });
+    }
+    if (query.includes("dispatchMessages")) {
+      const ids = variables.messages.map(({ contents }: { contents: string }) => {
+        const { targetPublicKey } = JSON.parse(Buffer.from(contents, "base64").toString());
+        const target = [...keys].find(([, publicKey]) => publicKey === targetPublicKey)?.[0];
+        const id = randomUUID();
+        messages.push({ id, contents, commitTimestamp: new Date().toISOString(), sender: address, target });
+        return { id };
+      });
+      return reply(200, { data: { dispatchMessages: ids } });
+    }
+    if (query.includes("mailbox")) {
+      const mailbox = messages
+        .filter((message) => message.sender === address || message.target === address)
+        .map(({ id, contents, commitTimestamp }) => ({ id, contents, commitTimestamp }));
+      return reply(200, { data: { mailbox: { messages: mailbox } } });
+    }
+    return reply(400, { errors: [{ message: "unknown query" }] });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, messages };
+}
+
+describe("FetchWalletMessagingTransport", () => {
+  let service: Awaited<ReturnType<typeof startMessagingService>>;
+  let transport: FetchWalletMessagingTransport;
+
+  beforeAll(async () => {
+    service = await startMessagingService();
+    transport = new FetchWalletMessagingTransport("dorado-1", undefined, `${service.url}/auth`, `${service.url}/graphql`);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => service.server.close(resolve));
+  });
+
+  async function pollAll(client: WalletMessagingClient): Promise<WalletMessage[]> {
+    const received: WalletMessage[] = [];
+    await client.poll(async (message) => { received.push(message); });
+    return received;
+  }
+
+  it("should exchange encrypted messages between wallets", async () => {
+    const alice = new WalletMessagingClient(LocalWallet.generate(), transport);
+    const bob = new WalletMessagingClient(LocalWallet.generate(), transport);
+
+    expect(await pollAll(bob)).toEqual([]);
+    await alice.send(bob.walletAddress, "hello bob");
+
+    expect(service.messages).toHaveLength(1);
+    expect(Buffer.from(service.messages[0]!.contents, "base64").toString()).not.toContain("hello bob");
+    expect(await pollAll(bob)).toMatchObject([
+      { sender: alice.walletAddress, target: bob.walletAddress, text: "hello bob", msgType: 1 },
+    ]);
+    expect(await pollAll(bob)).toEqual([]);
+    expect(await pollAll(alice)).toEqual([]);
+  });
+
+  it("should refuse to send to wallets not registered for messaging", async () => {
+    const alice = new WalletMessagingClient(LocalWallet.generate(), transport);
+
+    await expect(alice.send(LocalWallet.generate().address(), "anyone there?")).rejects.toThrow("not registered");
+  });
+
+  it("should drop messages not signed with the messaging key of their sender", async () => {
+    const alice = LocalWallet.generate();
+    const mallory = LocalWallet.generate();
+    const bob = new WalletMessagingClient(LocalWallet.generate(), transport);
+    const message = { target: bob.walletAddress, msgType: 1, timestamp: Math.floor(Date.now() / 1000) };
+
+    await pollAll(new WalletMessagingClient(alice, transport));
+    await pollAll(bob);
+    await transport.send(mallory, { ...message, sender: alice.address(), text: "trust me" });
+    await transport.send(mallory, { ...message, sender: mallory.address(), text: "genuine" });
+
+    expect((await pollAll(bob)).map((received) => [received.sender, received.text])).toEqual([
+      [mallory.address(), "genuine"],
+    ]);
+  });
+});
+
+describe("LocalWallet", () => {
+  it("should derive the same address as the cosmjs signer", async () => {
+    const wallet = LocalWallet.fromMnemonic(
+      "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about"
+    );
+    const [account] = await (await wallet.signer()).getAccounts();
+
+    expect(wallet.address()).toEqual("fetch19rl4cm2hmr8afy4kldpxz3fka4jguq0a0ayeaz");
+    expect(account!.address).toEqual(wallet.address());
+  });
+
+  it("should derive the agent wallet from its seed", () => {
+    const wallet = LocalWallet.fromSeed("local wallet seed");
+    const agent = buildAgent("local wallet seed", new InMemoryWalletMessagingTransport());
+
+    expect(wallet.address()).toEqual("fetch1cy4pefznryjtr8whstdnum32gaymnlha334atu");
+    expect(wallet.address()).not.toEqual(LocalWallet.fromSeed("local wallet seed", 1).address());
+    expect(agent.wallet.address()).toEqual(wallet.address());
+  });
+
+  it("should reject failed transactions", async () => {
+    const wallet = LocalWallet.generate();
+    const failed: DeliverTxResponse = {
+      height: 1,
+      txIndex: 0,
+      code: 5,
+      transactionHash: "ABC",
+      events: [],
+      rawLog: "insufficient funds",
+      msgResponses: [],
+      gasUsed: BigInt(0),
+      gasWanted: BigInt(0),
+    };
+    const client: Pick<SigningCosmWasmClient, "signAndBroadcast"> = {
+      signAndBroadcast: async () => failed,
+    };
+
+    await expect(wallet.signAndBroadcast(client, [])).rejects.toThrow("insufficient funds");
+  });
+});
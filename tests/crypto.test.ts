@@ -0,0 +1,141 @@
+import { describe, expect, it } from "@jest/globals";
+import { Secp256k1HdWallet, makeSignDoc } from "@cosmjs/amino";
+import { DirectSecp256k1HdWallet, makeCosmoshubPath } from "@cosmjs/proto-signing";
+import { createHash } from "crypto";
+import { Agent } from "../src/Agent";
+import { Identity, deriveKeyFromMnemonic, mnemonicToSeed } from "../src/crypto";
+import { MemoryStorage } from "../src/Storage";
+import { LocalWallet } from "../src/Wallet";
+
+const MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+describe("Identity mnemonics", () => {
+  it("should derive the identity of an agent seeded with the mnemonic", () => {
+    const identity = Identity.fromMnemonic(MNEMONIC, 0);
+
+    expect(identity.getAddress).toEqual(Identity.fromSeed(MNEMONIC, 0).getAddress);
+    expect(Identity.fromMnemonic(MNEMONIC, 1).getAddress).not.toEqual(identity.getAddress);
+    expect(Identity.fromMnemonic(`  ${MNEMONIC.toUpperCase()}\n`).getAddress).toEqual(identity.getAddress);
+  });
+
+  it("should export the mnemonic it was created from", () => {
+    const identity = Identity.fromMnemonic(MNEMONIC.replace(/ /g, "  "), 2);
+
+    expect(identity.toMnemonic()).toEqual(MNEMONIC);
+    expect(Identity.fromMnemonic(identity.toMnemonic(), 2).getAddress).toEqual(identity.getAddress);
+    expect(() => Identity.generate().toMnemonic()).toThrow("export it with toKeyMnemonic()");
+  });
+
+  it("should export any private key as a key mnemonic", () => {
+    const identities = [Identity.generate(), Identity.fromSeed("key mnemonic seed", 0), Identity.fromString("01".repeat(32))];
+    for (const identity of identities) {
+      const mnemonic = identity.toKeyMnemonic();
+
+      expect(mnemonic.split(" ")).toHaveLength(24);
+      expect(Identity.fromKeyMnemonic(mnemonic).privateKey).toEqual(identity.privateKey);
+    }
+    expect(Identity.fromString("00".repeat(31) + "01").toKeyMnemonic()).toEqual(`${"abandon ".repeat(23)}diesel`);
+    expect(() => Identity.fromKeyMnemonic(MNEMONIC)).toThrow("24 words");
+  });
+
+  it("should reject malformed mnemonics", () => {
+    expect(() => Identity.fromMnemonic("abandon about")).toThrow("Invalid mnemonic");
+    expect(() => Identity.fromMnemonic(MNEMONIC.replace("about", "ab0ut"))).toThrow("Invalid mnemonic");
+  });
+
+  it("should reject words outside the wordlist and invalid checksums", () => {
+    expect(() => Identity.fromMnemonic(MNEMONIC.replace("about", "aboot"))).toThrow("Invalid mnemonic");
+    expect(() => Identity.fromMnemonic(MNEMONIC.replace("about", "abandon"))).toThrow("Invalid mnemonic");
+  });
+});
+
+describe("BIP-39 and BIP-44 derivation", () => {
+  it("should compute the seed of the BIP-39 test vectors", () => {
+    expect(mnemonicToSeed(MNEMONIC, "TREZOR").toString("hex")).toEqual(
+      "c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04"
+    );
+    expect(
+      mnemonicToSeed("legal winner thank year wave sausage worth useful legal winner thank yellow", "TREZOR").toString("hex")
+    ).toEqual(
+      "2e8905819b8723fe2c1d161860e5ee1830318dbf49a83bd451cfb8440c28bd6fa457fe1296106559a3c80937a1c1069be3a3a5bd381ee6260e8d9739fce1f607"
+    );
+  });
+
+  it("should derive the standard Cosmos key of a mnemonic", () => {
+    expect(LocalWallet.fromMnemonic(MNEMONIC, 0, "cosmos").address()).toEqual(
+      "cosmos19rl4cm2hmr8afy4kldpxz3fka4jguq0auqdal4"
+    );
+    expect(() => deriveKeyFromMnemonic(MNEMONIC, "m/44'/118'/x")).toThrow();
+  });
+});
+
+describe("LocalWallet mnemonics", () => {
+  it("should derive the wallets of the Cosmos HD path", async () => {
+    for (const index of [0, 1, 7]) {
+      const hdWallet = await DirectSecp256k1HdWallet.fromMnemonic(MNEMONIC, {
+        prefix: "fetch",
+        hdPaths: [makeCosmoshubPath(index)],
+      });
+      const [account] = await hdWallet.getAccounts();
+
+      expect(LocalWallet.fromMnemonic(MNEMONIC, index).address()).toEqual(account!.address);
+    }
+  });
+
+  it("should back both the agent and its wallet", () => {
+    const agent = new Agent({ mnemonic: MNEMONIC, port: 0, storage: new MemoryStorage() });
+
+    expect(agent.address).toEqual(Identity.fromMnemonic(MNEMONIC).getAddress);
+    expect(agent.walletAddress).toEqual(LocalWallet.fromMnemonic(MNEMONIC).address());
+    expect(() => new Agent({ seed: "seed", mnemonic: MNEMONIC })).toThrow("either a seed or a mnemonic");
+  });
+});
+
+describe("Signed messages", () => {
+  const identity = Identity.fromSeed("signed messages seed", 0);
+  const data = Buffer.from("log in to example.com <at> 12:00 & stay");
+
+  it("should verify base64 signatures", () => {
+    const signature = identity.signDataB64(data);
+    const digest = createHash("sha256").update(data).digest();
+
+    expect(identity.signB64(digest)).toEqual(signature);
+
+    expect(() => Identity.verifyDigest(identity.address, digest, signature)).not.toThrow();
+    expect(() => Identity.verifyDigest(Identity.generate().address, digest, signature)).toThrow("Unable to verify");
+    expect(() => Identity.verifyDigest(identity.address, digest, "not a signature!")).toThrow("Unable to decode");
+    expect(() => Identity.verifyDigest(identity.address, digest, "c2ln")).toThrow("Invalid signature length");
+  });
+
+  it("should verify data signed with signArbitrary", () => {
+    const [signDoc, signature] = identity.signArbitrary(data);
+
+    expect(() => Identity.verifyArbitrary(identity.address, data, signDoc, signature)).not.toThrow();
+    expect(() => Identity.verifyArbitrary(identity.address, data, null, signature)).not.toThrow();
+    expect(() => Identity.verifyArbitrary(identity.address, Buffer.from("other"), signDoc, signature))
+      .toThrow("does not match");
+    expect(() => Identity.verifyArbitrary(identity.address, Buffer.from("other"), null, signature))
+      .toThrow("Unable to verify");
+  });
+
+  it("should verify data signed by Keplr-like wallets", async () => {
+    const wallet = await Secp256k1HdWallet.fromMnemonic(MNEMONIC, { prefix: "fetch" });
+    const [account] = await wallet.getAccounts();
+    const address = account!.address;
+    const signDoc = makeSignDoc(
+      [{ type: "sign/MsgSignData", value: { signer: address, data: data.toString("base64") } }],
+      { gas: "0", amount: [] },
+      "",
+      "",
+      0,
+      0
+    );
+    const { signature } = await wallet.signAmino(address, signDoc);
+
+    expect(address).toEqual(LocalWallet.fromMnemonic(MNEMONIC).address());
+    expect(() => Identity.verifyArbitrary(address, data, null, signature.signature)).not.toThrow();
+    expect(() => Identity.verifyArbitrary(LocalWallet.generate().address(), data, null, signature.signature))
+      .toThrow("Unable to verify");
+  });
+});